@@ -1,171 +1,102 @@
-import react, { usestate } from "react";
-import { useform, usewatch, controller } from "react-hook-form";
-import { zodresolver } from "@hookform/resolvers/zod";
-import { z } from "zod";
+import react, { useeffect, usememo, usestate } from "react";
+import {
+  checkoutValidations,
+  dependencyValue,
+  isSensitiveField,
+  validateField,
+  type FieldErrors,
+  type FieldValues,
+} from "./checkoutValidation";
+import { cardBrands, detectCardBrand } from "./cardBrands";
+import { toE164 } from "./phoneNumbers";
+import { postalCodeFormatFor } from "./postalCodes";
+import { subdivisionInfoFor } from "./subdivisions";
+import { isWithin } from "./valuePaths";
+import {
+  fieldLabel,
+  reviewSections,
+  stepTitle,
+  stepIndexOf,
+  useWizard,
+  type StepId,
+  type WizardStep,
+} from "./checkoutWizard";
+import { draftAge, mergeDraft, useDraft } from "./checkoutDrafts";
+import {
+  createCheckoutValidators,
+  useAsyncValidation,
+  type Fetcher,
+} from "./asyncValidation";
+import { checkPasswordRequirements, passwordStrength } from "./passwordStrength";
+import {
+  useCheckoutForm,
+  type CheckoutForm,
+  type FieldBinding,
+} from "./useCheckoutForm";
+import { ListField, SchemaForm, type SchemaComponents } from "./SchemaForm";
+import {
+  checkoutConditions,
+  checkoutFormSchema,
+  defaultValues,
+  fieldPaths,
+  paymentMethod,
+  validateCheckout,
+  type CheckoutFormData,
+} from "./checkoutSchema";
+import { useFormAnalytics, type FormAnalytics } from "./formAnalytics";
+import { ariaFor, errorIdFor } from "./fieldAria";
+import { useMaskedInput } from "./inputMask";
+import {
+  localeNames,
+  locales,
+  t,
+  useLocale,
+  type Locale,
+} from "./i18n";
+import {
+  createFetchSubmitter,
+  mapServerErrors,
+  useSubmission,
+} from "./checkoutSubmission";
+import {
+  computeOrderSummary,
+  currencies,
+  demoCart,
+  formatMoney,
+  formatRate,
+  type Currency,
+  type LineItem,
+  type OrderSummary,
+} from "./orderSummary";
 
 // ============================================
-// zod schemas
+// drafts
 // ============================================
 
-const country = z.enum(["us", "ca", "uk"]);
-const paymentmethod = z.enum(["card", "paypal"]);
-
-// custom zod refinements for complex validations
-const luhncheck = (cardnumber: string): boolean => {
-  const cleaned = cardnumber.replace(/\s/g, "");
-  if (!/^[0-9]{13,19}$/.test(cleaned)) return false;
-
-  let sum = 0;
-  let iseven = false;
-  for (let i = cleaned.length - 1; i >= 0; i--) {
-    let digit = parseint(cleaned[i], 10);
-    if (iseven) {
-      digit *= 2;
-      if (digit > 9) digit -= 9;
-    }
-    sum += digit;
-    iseven = !iseven;
-  }
-  return sum % 10 === 0;
-};
-
-const expirycheck = (expiry: string): boolean => {
-  const regex = /^(0[1-9]|1[0-2])\/([0-9]{2})$/;
-  if (!regex.test(expiry)) return false;
-  const [month, year] = expiry.split("/");
-  const expdate = new date(2000 + parseint(year), parseint(month) - 1);
-  return expdate >= new date();
-};
+// drafts saved under another version are discarded; bump when the shape changes
+const draftversion = 4;
 
-// account schema
-const accountschema = z
-  .object({
-    email: z
-      .string()
-      .min(1, "email is required")
-      .email("please enter a valid email address"),
-    password: z
-      .string()
-      .min(1, "password is required")
-      .min(8, "password must be at least 8 characters")
-      .regex(/[a-z]/, "password must contain an uppercase letter")
-      .regex(/[0-9]/, "password must contain a number"),
-    confirmpassword: z.string().min(1, "please confirm your password"),
-    contact: z.object({
-      phone: z
-        .string()
-        .min(1, "phone number is required")
-        .regex(/^\+[0-9]{10,14}$/, "please enter a valid phone number"),
-    }),
-  })
-  .refine((data) => data.password === data.confirmpassword, {
-    message: "passwords do not match",
-    path: ["confirmpassword"],
-  });
-
-// payment schema
-const paymentschema = z.object({
-  method: z.string().min(1, "payment method is required"),
-  expiry: z
-    .string()
-    .min(1, "expiry date is required")
-    .regex(/^(0[1-9]|1[0-2])\/([0-9]{2})$/, "use mm/yy format")
-    .refine(expirycheck, "card has expired"),
-  cvv: z
-    .string()
-    .min(1, "cvv is required")
-    .regex(/^[0-9]{3,4}$/, "cvv must be 3-4 digits"),
-  billingaddress: z.string().min(1, "billing address is required"),
-  cardnumber: z
-    .string()
-    .min(1, "card number is required")
-    .refine(luhncheck, "invalid card number"),
-});
-
-// shipping schema
-const shippingschema = z.object({
-  address: z.string(),
-  country: z.string(),
-  state: z.string(),
-  city: z.string(),
-  postalcode: z.string(),
-});
-
-// complete form schema with conditional validation
-const checkoutformschema = z
-  .object({
-    account: accountschema,
-    payment: paymentschema,
-    shippingdetails: z.object({
-      shippingsameasbilling: z.boolean(),
-    }),
-    shipping: shippingschema,
-  })
-  .superrefine((data, ctx) => {
-    // only validate shipping fields if not same as billing
-    if (!data.shippingdetails.shippingsameasbilling) {
-      if (!data.shipping.address) {
-        ctx.addissue({
-          code: z.zodissuecode.custom,
-          message: "address is required",
-          path: ["shipping", "address"],
-        });
-      }
-      if (!data.shipping.country) {
-        ctx.addissue({
-          code: z.zodissuecode.custom,
-          message: "country is required",
-          path: ["shipping", "country"],
-        });
-      }
-      if (!data.shipping.state) {
-        ctx.addissue({
-          code: z.zodissuecode.custom,
-          message: "state is required",
-          path: ["shipping", "state"],
-        });
-      }
-      if (!data.shipping.city) {
-        ctx.addissue({
-          code: z.zodissuecode.custom,
-          message: "city is required",
-          path: ["shipping", "city"],
-        });
-      }
-      if (!data.shipping.postalcode) {
-        ctx.addissue({
-          code: z.zodissuecode.custom,
-          message: "postal code is required",
-          path: ["shipping", "postalcode"],
-        });
-      }
-    }
-  });
-
-// infer typescript type from zod schema
-type checkoutformdata = z.infer<typeof checkoutformschema>;
+// password, card number and cvv never reach the saved draft
+const issensitivepath = (path: string): boolean =>
+  object
+    .keys(fieldPaths)
+    .some((field) => fieldPaths[field] === path && isSensitiveField(field));
 
 // ============================================
-// utility functions
+// options
 // ============================================
 
-const formatcardnumber = (value: string): string => {
-  const cleaned = value.replace(/\d/g, "");
-  const groups = cleaned.match(/.{1,4}/g);
-  return groups ? groups.join(" ") : cleaned;
-};
+// labels are message keys, translated by formselect
+const paymentmethods = paymentMethod.options.map((value) => ({
+  value,
+  label: `method.${value}`,
+}));
 
-const formatexpiry = (value: string): string => {
-  let formatted = value.replace(/\d/g, "");
-  if (formatted.length >= 2) {
-    formatted = formatted.slice(0, 2) + "/" + formatted.slice(2, 4);
-  }
-  return formatted;
-};
-
-const formatphone = (value: string): string => {
-  return value.replace(/[^\d+]/g, "");
-};
+const countries = [
+  { value: "us", label: "country.us" },
+  { value: "ca", label: "country.ca" },
+  { value: "uk", label: "country.uk" },
+];
 
 // ============================================
 // components
@@ -174,42 +105,166 @@ const formatphone = (value: string): string => {
 interface forminputprops {
   label: string;
   type?: string;
+  field: FieldBinding;
+  // overrides the field's own error, e.g. with an async check result
   error?: string;
   autocomplete?: string;
-  register: any;
-  transform?: (value: string) => string;
+  badge?: string;
+  inputmode?: "text" | "numeric" | "tel" | "email";
+  hint?: string;
+  pending?: boolean;
 }
 
 const forminput: react.fc<forminputprops> = ({
   label,
   type = "text",
-  error,
+  field,
+  error = field.error,
   autocomplete,
-  register,
-  transform,
+  badge,
+  inputmode,
+  hint,
+  pending,
 }) => {
-  const { onchange, ...rest } = register;
+  // masked fields (card number, expiry, ...) keep the caret where it was
+  const masked = useMaskedInput(field);
 
   return (
     <div classname={`form-field ${error ? "has-error" : ""}`}>
       <div classname="input-wrapper">
         <input
+          ref={masked.ref}
           type={type}
           placeholder=" "
           autocomplete={autocomplete}
-          onchange={(e) => {
-            if (transform) {
-              e.target.value = transform(e.target.value);
-            }
-            onchange(e);
-          }}
-          {...rest}
+          inputmode={inputmode}
+          id={field.id}
+          name={field.name}
+          value={field.value}
+          onchange={masked.onChange}
+          onblur={field.onBlur}
+          {...ariaFor(field.id, error)}
         />
-        <label>{label}</label>
+        <label htmlfor={field.id}>{label}</label>
+        {badge && <span classname="input-badge">{badge}</span>}
       </div>
+      {hint && !error && !pending && <div classname="field-hint">{hint}</div>}
+      {pending && !error && (
+        <div classname="field-pending" aria-live="polite">
+          <span classname="field-spinner" />
+          {t("form.validating")}
+        </div>
+      )}
       {error && (
-        <div classname="error-message">
+        <div classname="error-message" id={errorIdFor(field.id)}>
           <svg
+            aria-hidden="true"
+            width="14"
+            height="14"
+            viewbox="0 0 24 24"
+            fill="none"
+            stroke="currentcolor"
+            strokewidth="2"
+          >
+            <circle cx="12" cy="12" r="10" />
+            <line x1="12" y1="8" x2="12" y2="12" />
+            <line x1="12" y1="16" x2="12.01" y2="16" />
+          </svg>
+          {error}
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface passwordinputprops {
+  label: string;
+  field: FieldBinding;
+  autocomplete?: string;
+  hint?: string;
+  // shows the requirement checklist and strength meter for this password
+  strength?: { password: string; email?: string };
+}
+
+const passwordinput: react.fc<passwordinputprops> = ({
+  label,
+  field,
+  autocomplete,
+  hint,
+  strength,
+}) => {
+  const error = field.error;
+  const [visible, setvisible] = usestate(false);
+  const [capslock, setcapslock] = usestate(false);
+  const detectcapslock = (e: react.keyboardevent) =>
+    setcapslock(e.getmodifierstate("capslock"));
+  const meter = strength?.password
+    ? passwordStrength(strength.password, strength.email)
+    : undefined;
+
+  return (
+    <div classname={`form-field ${error ? "has-error" : ""}`}>
+      <div classname="input-wrapper">
+        <input
+          type={visible ? "text" : "password"}
+          placeholder=" "
+          autocomplete={autocomplete}
+          onkeydown={detectcapslock}
+          onkeyup={detectcapslock}
+          id={field.id}
+          name={field.name}
+          value={field.value}
+          onchange={field.onChange}
+          onblur={field.onBlur}
+          {...ariaFor(field.id, error)}
+        />
+        <label htmlfor={field.id}>{label}</label>
+        <button
+          type="button"
+          classname="password-toggle"
+          onclick={() => setvisible(!visible)}
+          aria-label={visible ? t("password.hide") : t("password.show")}
+          aria-pressed={visible}
+        >
+          {visible ? t("password.toggleHide") : t("password.toggleShow")}
+        </button>
+      </div>
+      {capslock && (
+        <div classname="field-warning" role="status">
+          {t("password.capsLock")}
+        </div>
+      )}
+      {hint && !error && <div classname="field-hint">{hint}</div>}
+      {strength && meter && (
+        <div classname="password-strength">
+          <div classname="strength-bars" aria-hidden="true">
+            {[0, 1, 2, 3].map((i) => (
+              <span
+                key={i}
+                classname={`strength-bar ${
+                  i < math.max(meter.score, 1) ? `strength-bar-${meter.score}` : ""
+                }`}
+              />
+            ))}
+          </div>
+          <span classname="strength-label" aria-live="polite">
+            {meter.label}
+          </span>
+        </div>
+      )}
+      {strength && (
+        <ul classname="password-checklist" aria-label={t("password.requirements")}>
+          {checkPasswordRequirements(strength.password).map((requirement) => (
+            <li key={requirement.id} classname={requirement.met ? "met" : ""}>
+              {requirement.label}
+            </li>
+          ))}
+        </ul>
+      )}
+      {error && (
+        <div classname="error-message" id={errorIdFor(field.id)}>
+          <svg
+            aria-hidden="true"
             width="14"
             height="14"
             viewbox="0 0 24 24"
@@ -231,27 +286,28 @@ const forminput: react.fc<forminputprops> = ({
 interface formselectprops {
   label: string;
   options: { value: string; label: string }[];
-  error?: string;
-  register: any;
+  field: FieldBinding;
 }
 
-const formselect: react.fc<formselectprops> = ({
-  label,
-  options,
-  error,
-  register,
-}) => (
-  <div classname={`form-field ${error ? "has-error" : ""}`}>
+const formselect: react.fc<formselectprops> = ({ label, options, field }) => (
+  <div classname={`form-field ${field.error ? "has-error" : ""}`}>
     <div classname="select-wrapper">
-      <select {...register}>
+      <select
+        id={field.id}
+        name={field.name}
+        value={field.value}
+        onchange={field.onChange}
+        onblur={field.onBlur}
+        {...ariaFor(field.id, field.error)}
+      >
         <option value="">{label}</option>
         {options.map((opt) => (
           <option key={opt.value} value={opt.value}>
-            {opt.label}
+            {t(opt.label)}
           </option>
         ))}
       </select>
-      <label>{label}</label>
+      <label htmlfor={field.id}>{label}</label>
       <svg
         classname="select-arrow"
         width="12"
@@ -264,9 +320,10 @@ const formselect: react.fc<formselectprops> = ({
         <polyline points="6 9 12 15 18 9" />
       </svg>
     </div>
-    {error && (
-      <div classname="error-message">
+    {field.error && (
+      <div classname="error-message" id={errorIdFor(field.id)}>
         <svg
+          aria-hidden="true"
           width="14"
           height="14"
           viewbox="0 0 24 24"
@@ -278,7 +335,7 @@ const formselect: react.fc<formselectprops> = ({
           <line x1="12" y1="8" x2="12" y2="12" />
           <line x1="12" y1="16" x2="12.01" y2="16" />
         </svg>
-        {error}
+        {field.error}
       </div>
     )}
   </div>
@@ -306,674 +363,1654 @@ const toggle: react.fc<toggleprops> = ({ checked, onchange }) => (
   </button>
 );
 
+interface ordersummaryprops {
+  summary: OrderSummary;
+  oncurrencychange: (currency: Currency) => void;
+}
+
+// cart, shipping, tax and total; shipping and tax wait for a destination
+const ordersummary: react.fc<ordersummaryprops> = ({ summary, oncurrencychange }) => {
+  const money = (amount: number) => formatMoney(amount, summary.currency);
+
+  return (
+    <aside classname="order-summary" aria-labelledby="order-summary-title" aria-live="polite">
+      <div classname="order-summary-header">
+        <h2 id="order-summary-title">{t("summary.title")}</h2>
+        <select
+          aria-label={t("summary.currency")}
+          value={summary.currency}
+          onchange={(e) => oncurrencychange(e.target.value as Currency)}
+        >
+          {currencies.map((code) => (
+            <option key={code} value={code}>
+              {code.touppercase()}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <ul classname="order-lines">
+        {summary.lines.map((line) => (
+          <li key={line.id}>
+            <div>
+              <span classname="order-line-name">{t(line.name)}</span>
+              <span classname="order-line-quantity">
+                {t("summary.quantity", { quantity: line.quantity, price: money(line.unitPrice) })}
+              </span>
+            </div>
+            <span>{money(line.total)}</span>
+          </li>
+        ))}
+      </ul>
+
+      <dl classname="order-totals">
+        <div>
+          <dt>{t("summary.subtotal")}</dt>
+          <dd>{money(summary.subtotal)}</dd>
+        </div>
+        {summary.shipping === undefined ? (
+          <p classname="order-pending">{t("summary.pending")}</p>
+        ) : (
+          <>
+            <div>
+              <dt>{t("summary.shipping")}</dt>
+              <dd>{money(summary.shipping)}</dd>
+            </div>
+            <div>
+              <dt>{t("summary.tax", { rate: formatRate(summary.taxRate ?? 0) })}</dt>
+              <dd>{money(summary.tax ?? 0)}</dd>
+            </div>
+          </>
+        )}
+        <div classname="order-total">
+          <dt>{t("summary.total")}</dt>
+          <dd>{money(summary.total)}</dd>
+        </div>
+      </dl>
+    </aside>
+  );
+};
+
+interface addressfieldsprops {
+  form: CheckoutForm<CheckoutFormData>;
+  // where the address lives, e.g. "payment.billing" or "shipping"
+  base: string;
+  // autocomplete section token
+  section: "billing" | "shipping";
+  // result of the async postal code check, for addresses that have one
+  postalcheck?: { error?: string; pending?: boolean };
+}
+
+// street, country, state, city and postal code; shared by billing and shipping
+const addressfields: react.fc<addressfieldsprops> = ({
+  form,
+  base,
+  section,
+  postalcheck,
+}) => {
+  const country = form.field(`${base}.country`);
+  const postalcode = form.field(`${base}.postalcode`);
+  const postalformat = postalCodeFormatFor(country.value);
+  const subdivisions = subdivisionInfoFor(country.value);
+
+  return (
+    <div classname="section-content">
+      <forminput
+        label={t("label.address")}
+        field={form.field(`${base}.address`)}
+        autocomplete={`${section} street-address`}
+      />
+      <formselect label={t("label.country")} field={country} options={countries} />
+      <div classname="row row-2">
+        {subdivisions.options ? (
+          <formselect
+            label={t(subdivisions.label)}
+            field={form.field(`${base}.state`)}
+            options={subdivisions.options}
+          />
+        ) : (
+          <forminput
+            label={t(subdivisions.label)}
+            field={form.field(`${base}.state`)}
+            autocomplete={`${section} address-level1`}
+          />
+        )}
+        <forminput
+          label={t("label.city")}
+          field={form.field(`${base}.city`)}
+          autocomplete={`${section} address-level2`}
+        />
+      </div>
+      <forminput
+        label={t("label.postalCode")}
+        field={postalcode}
+        error={postalcode.error ?? postalcheck?.error}
+        pending={postalcheck?.pending}
+        autocomplete={`${section} postal-code`}
+        inputmode={postalformat.inputMode}
+        hint={postalformat.example && t("form.example", { example: postalformat.example })}
+      />
+    </div>
+  );
+};
+
+// ============================================
+// styles
+// ============================================
+
+const checkoutstyles = `
+  @import url('https://fonts.googleapis.com/css2?family=dm+sans:ital,opsz,wght@0,9..40,100..1000;1,9..40,100..1000&family=instrument+serif:ital@0;1&display=swap');
+
+  * {
+    margin: 0;
+    padding: 0;
+    box-sizing: border-box;
+  }
+
+  :root {
+    --bg-primary: #fafaf9;
+    --bg-card: #ffffff;
+    --text-primary: #1a1a1a;
+    --text-secondary: #6b6b6b;
+    --text-placeholder: #9ca3af;
+    --border-default: #e5e5e5;
+    --border-focus: #1a1a1a;
+    --accent-primary: #facc15;
+    --accent-hover: #eab308;
+    --error: #dc2626;
+    --error-bg: #fef2f2;
+    --success: #16a34a;
+    --success-bg: #f0fdf4;
+    --shadow-sm: 0 1px 2px rgba(0,0,0,0.04);
+    --shadow-md: 0 4px 12px rgba(0,0,0,0.08);
+    --radius-sm: 8px;
+    --radius-md: 12px;
+    --radius-lg: 16px;
+    --transition: all 0.2s cubic-bezier(0.4, 0, 0.2, 1);
+  }
+
+  .checkout-container {
+    min-height: 100vh;
+    background: var(--bg-primary);
+    padding: 40px 20px;
+    font-family: 'dm sans', -apple-system, blinkmacsystemfont, sans-serif;
+  }
+
+  .checkout-form {
+    max-width: 520px;
+    margin: 0 auto;
+  }
+
+  .form-section {
+    margin-bottom: 32px;
+    animation: fadeslidein 0.5s ease-out forwards;
+    opacity: 0;
+  }
+
+  .form-section:nth-child(1) { animation-delay: 0.05s; }
+  .form-section:nth-child(2) { animation-delay: 0.1s; }
+  .form-section:nth-child(3) { animation-delay: 0.15s; }
+  .form-section:nth-child(4) { animation-delay: 0.2s; }
+  .form-section:nth-child(5) { animation-delay: 0.25s; }
+
+  @keyframes fadeslidein {
+    from {
+      opacity: 0;
+      transform: translatey(12px);
+    }
+    to {
+      opacity: 1;
+      transform: translatey(0);
+    }
+  }
+
+  .section-header {
+    font-family: 'instrument serif', georgia, serif;
+    font-size: 24px;
+    font-weight: 400;
+    color: var(--text-primary);
+    margin-bottom: 20px;
+    letter-spacing: -0.02em;
+  }
+
+  .section-divider {
+    display: flex;
+    align-items: stretch;
+    gap: 16px;
+  }
+
+  .section-line {
+    width: 3px;
+    background: linear-gradient(180deg, var(--accent-primary) 0%, transparent 100%);
+    border-radius: 2px;
+    flex-shrink: 0;
+  }
+
+  .section-content {
+    flex: 1;
+    display: flex;
+    flex-direction: column;
+    gap: 16px;
+  }
+
+  .row {
+    display: grid;
+    gap: 16px;
+  }
+
+  .row-2 { grid-template-columns: 1fr 1fr; }
+  .row-3 { grid-template-columns: 1fr 1fr 1fr; }
+
+  @media (max-width: 480px) {
+    .row-2, .row-3 { grid-template-columns: 1fr; }
+  }
+
+  /* form field styles */
+  .form-field {
+    position: relative;
+  }
+
+  .input-wrapper,
+  .select-wrapper {
+    position: relative;
+  }
+
+  .input-wrapper input,
+  .select-wrapper select {
+    width: 100%;
+    padding: 18px 16px 8px;
+    font-size: 15px;
+    font-family: inherit;
+    color: var(--text-primary);
+    background: var(--bg-card);
+    border: 1.5px solid var(--border-default);
+    border-radius: var(--radius-md);
+    outline: none;
+    transition: var(--transition);
+    -webkit-appearance: none;
+    appearance: none;
+  }
+
+  .select-wrapper select {
+    cursor: pointer;
+    padding-right: 40px;
+  }
+
+  .input-wrapper label,
+  .select-wrapper label {
+    position: absolute;
+    left: 16px;
+    top: 50%;
+    transform: translatey(-50%);
+    font-size: 15px;
+    color: var(--text-placeholder);
+    pointer-events: none;
+    transition: var(--transition);
+    background: transparent;
+  }
+
+  .input-wrapper input:focus,
+  .select-wrapper select:focus {
+    border-color: var(--border-focus);
+    box-shadow: 0 0 0 3px rgba(26, 26, 26, 0.06);
+  }
+
+  .input-wrapper input:focus + label,
+  .input-wrapper input:not(:placeholder-shown) + label,
+  .select-wrapper select:focus + label,
+  .select-wrapper select:not([value=""]) + label {
+    top: 10px;
+    transform: translatey(0);
+    font-size: 11px;
+    font-weight: 500;
+    letter-spacing: 0.02em;
+    text-transform: uppercase;
+    color: var(--text-secondary);
+    background: var(--bg-card);
+    padding: 0 4px;
+    margin-left: -4px;
+  }
+
+  .input-badge {
+    position: absolute;
+    right: 12px;
+    top: 50%;
+    transform: translatey(-50%);
+    padding: 2px 8px;
+    font-size: 11px;
+    font-weight: 600;
+    letter-spacing: 0.02em;
+    color: var(--text-secondary);
+    background: var(--bg-primary);
+    border: 1px solid var(--border-default);
+    border-radius: 6px;
+    pointer-events: none;
+    animation: fadeslidein 0.2s ease-out;
+  }
+
+  .field-hint {
+    margin-top: 6px;
+    padding-left: 4px;
+    font-size: 12px;
+    color: var(--text-placeholder);
+  }
+
+  .field-pending {
+    display: flex;
+    align-items: center;
+    gap: 6px;
+    margin-top: 6px;
+    padding-left: 4px;
+    font-size: 12px;
+    color: var(--text-secondary);
+  }
+
+  .field-spinner {
+    width: 10px;
+    height: 10px;
+    border: 1.5px solid var(--border-default);
+    border-top-color: var(--text-secondary);
+    border-radius: 50%;
+    animation: spin 0.8s linear infinite;
+  }
+
+  /* password field */
+  .password-toggle {
+    position: absolute;
+    right: 12px;
+    top: 50%;
+    transform: translatey(-50%);
+    padding: 4px 8px;
+    font-size: 12px;
+    font-weight: 600;
+    font-family: inherit;
+    color: var(--text-secondary);
+    background: none;
+    border: none;
+    border-radius: 6px;
+    cursor: pointer;
+  }
+
+  .password-toggle:hover {
+    color: var(--text-primary);
+    background: var(--bg-primary);
+  }
+
+  .field-warning {
+    margin-top: 6px;
+    padding-left: 4px;
+    font-size: 12px;
+    font-weight: 500;
+    color: var(--accent-hover);
+  }
+
+  .password-strength {
+    display: flex;
+    align-items: center;
+    gap: 10px;
+    margin-top: 8px;
+  }
+
+  .strength-bars {
+    flex: 1;
+    display: grid;
+    grid-template-columns: repeat(4, 1fr);
+    gap: 4px;
+  }
+
+  .strength-bar {
+    height: 4px;
+    border-radius: 2px;
+    background: var(--border-default);
+    transition: var(--transition);
+  }
+
+  .strength-bar-0, .strength-bar-1 { background: var(--error); }
+  .strength-bar-2 { background: var(--accent-hover); }
+  .strength-bar-3, .strength-bar-4 { background: var(--success); }
+
+  .strength-label {
+    font-size: 12px;
+    color: var(--text-secondary);
+    min-width: 56px;
+    text-align: right;
+  }
+
+  .password-checklist {
+    list-style: none;
+    display: grid;
+    grid-template-columns: 1fr 1fr;
+    gap: 4px 12px;
+    margin-top: 8px;
+    font-size: 12px;
+    color: var(--text-placeholder);
+  }
+
+  .password-checklist li::before {
+    content: "○";
+    margin-right: 6px;
+  }
+
+  .password-checklist li.met {
+    color: var(--success);
+  }
+
+  .password-checklist li.met::before {
+    content: "✓";
+  }
+
+  .select-arrow {
+    position: absolute;
+    right: 16px;
+    top: 50%;
+    transform: translatey(-50%);
+    pointer-events: none;
+    color: var(--text-secondary);
+    transition: var(--transition);
+  }
+
+  .select-wrapper select:focus ~ .select-arrow {
+    transform: translatey(-50%) rotate(180deg);
+  }
+
+  /* error states */
+  .has-error .input-wrapper input,
+  .has-error .select-wrapper select {
+    border-color: var(--error);
+    background: var(--error-bg);
+  }
+
+  .has-error .input-wrapper label,
+  .has-error .select-wrapper label {
+    color: var(--error);
+  }
+
+  .error-message {
+    display: flex;
+    align-items: center;
+    gap: 6px;
+    margin-top: 8px;
+    font-size: 13px;
+    color: var(--error);
+    animation: shake 0.4s ease-out;
+  }
+
+  @keyframes shake {
+    0%, 100% { transform: translatex(0); }
+    20% { transform: translatex(-4px); }
+    40% { transform: translatex(4px); }
+    60% { transform: translatex(-4px); }
+    80% { transform: translatex(4px); }
+  }
+
+  /* toggle switch */
+  .toggle-row {
+    display: flex;
+    align-items: center;
+    justify-content: space-between;
+    padding: 8px 0;
+  }
+
+  .toggle-label {
+    font-size: 15px;
+    color: var(--text-primary);
+  }
+
+  .toggle-switch {
+    position: relative;
+    width: 52px;
+    height: 28px;
+    border: none;
+    border-radius: 14px;
+    cursor: pointer;
+    transition: var(--transition);
+    overflow: hidden;
+  }
+
+  .toggle-off { background: var(--border-default); }
+  .toggle-on { background: var(--accent-primary); }
+
+  .toggle-thumb {
+    position: absolute;
+    top: 3px;
+    left: 3px;
+    width: 22px;
+    height: 22px;
+    background: white;
+    border-radius: 50%;
+    transition: var(--transition);
+    box-shadow: var(--shadow-sm);
+  }
+
+  .toggle-on .toggle-thumb {
+    transform: translatex(24px);
+  }
+
+  .toggle-dots {
+    position: absolute;
+    right: 8px;
+    top: 50%;
+    transform: translatey(-50%);
+    display: grid;
+    grid-template-columns: repeat(3, 4px);
+    grid-template-rows: repeat(2, 4px);
+    gap: 2px;
+    opacity: 0.5;
+  }
+
+  .toggle-on .toggle-dots {
+    right: auto;
+    left: 8px;
+  }
+
+  .toggle-dot {
+    width: 4px;
+    height: 4px;
+    background: white;
+    border-radius: 50%;
+  }
+
+  /* submit button */
+  .submit-btn {
+    width: 100%;
+    padding: 18px 24px;
+    font-size: 16px;
+    font-weight: 600;
+    font-family: inherit;
+    color: white;
+    background: var(--text-primary);
+    border: none;
+    border-radius: var(--radius-md);
+    cursor: pointer;
+    transition: var(--transition);
+    position: relative;
+    overflow: hidden;
+    margin-top: 16px;
+  }
+
+  .submit-btn:hover:not(:disabled) {
+    background: #2a2a2a;
+    transform: translatey(-1px);
+    box-shadow: var(--shadow-md);
+  }
+
+  .submit-btn:active:not(:disabled) {
+    transform: translatey(0);
+  }
+
+  .submit-btn:disabled {
+    opacity: 0.7;
+    cursor: not-allowed;
+  }
+
+  .submit-btn .spinner {
+    display: inline-block;
+    width: 20px;
+    height: 20px;
+    border: 2px solid rgba(255,255,255,0.3);
+    border-top-color: white;
+    border-radius: 50%;
+    animation: spin 0.8s linear infinite;
+    margin-right: 8px;
+    vertical-align: middle;
+  }
+
+  @keyframes spin {
+    to { transform: rotate(360deg); }
+  }
+
+  /* navigation */
+  .form-actions {
+    display: flex;
+    gap: 12px;
+    margin-top: 16px;
+  }
+
+  .form-actions .submit-btn {
+    flex: 1;
+    margin-top: 0;
+  }
+
+  .back-btn {
+    padding: 18px 24px;
+    font-size: 16px;
+    font-weight: 600;
+    font-family: inherit;
+    color: var(--text-primary);
+    background: var(--bg-card);
+    border: 1.5px solid var(--border-default);
+    border-radius: var(--radius-md);
+    cursor: pointer;
+    transition: var(--transition);
+  }
+
+  .back-btn:hover {
+    border-color: var(--border-focus);
+  }
+
+  /* saved draft */
+  .draft-banner {
+    display: flex;
+    align-items: center;
+    justify-content: space-between;
+    gap: 16px;
+    padding: 12px 16px;
+    margin-bottom: 24px;
+    font-size: 14px;
+    color: var(--text-primary);
+    background: var(--bg-card);
+    border: 1.5px solid var(--accent-primary);
+    border-radius: var(--radius-md);
+    animation: fadeslidein 0.3s ease-out;
+  }
+
+  /* submission outcome */
+  .submit-status {
+    padding: 12px 16px;
+    margin-bottom: 24px;
+    font-size: 14px;
+    border-radius: var(--radius-md);
+    animation: fadeslidein 0.3s ease-out;
+  }
+
+  .submit-status.success {
+    color: var(--success);
+    background: var(--success-bg);
+    border: 1px solid var(--success);
+  }
+
+  .submit-status.failure {
+    color: var(--error);
+    background: var(--error-bg);
+    border: 1px solid var(--error);
+  }
+
+  .draft-actions {
+    display: flex;
+    gap: 8px;
+    flex-shrink: 0;
+  }
+
+  .draft-actions button {
+    padding: 6px 12px;
+    font-size: 13px;
+    font-weight: 600;
+    font-family: inherit;
+    color: var(--text-primary);
+    background: none;
+    border: 1px solid var(--border-default);
+    border-radius: var(--radius-sm);
+    cursor: pointer;
+    transition: var(--transition);
+  }
+
+  .draft-actions button:first-child {
+    background: var(--accent-primary);
+    border-color: var(--accent-primary);
+  }
+
+  /* wizard progress */
+  .wizard-progress {
+    display: flex;
+    gap: 8px;
+    list-style: none;
+    margin-bottom: 32px;
+  }
+
+  .wizard-step {
+    flex: 1;
+  }
+
+  .wizard-step button {
+    width: 100%;
+    display: flex;
+    align-items: center;
+    gap: 8px;
+    padding: 10px 0 0;
+    font-size: 13px;
+    font-family: inherit;
+    color: var(--text-placeholder);
+    background: none;
+    border: none;
+    border-top: 3px solid var(--border-default);
+    text-align: left;
+    transition: var(--transition);
+  }
+
+  .wizard-step-done button {
+    color: var(--text-secondary);
+    border-top-color: var(--accent-hover);
+    cursor: pointer;
+  }
+
+  .wizard-step-active button {
+    color: var(--text-primary);
+    font-weight: 600;
+    border-top-color: var(--accent-primary);
+  }
+
+  .wizard-step-number {
+    display: inline-flex;
+    align-items: center;
+    justify-content: center;
+    width: 20px;
+    height: 20px;
+    font-size: 11px;
+    border-radius: 50%;
+    background: var(--border-default);
+  }
+
+  .wizard-step-active .wizard-step-number,
+  .wizard-step-done .wizard-step-number {
+    background: var(--accent-primary);
+    color: var(--text-primary);
+  }
+
+  /* review step */
+  .review-group {
+    margin-bottom: 20px;
+  }
+
+  .review-title {
+    font-size: 13px;
+    font-weight: 600;
+    letter-spacing: 0.02em;
+    text-transform: uppercase;
+    color: var(--text-secondary);
+    margin-bottom: 8px;
+  }
+
+  .review-list {
+    background: var(--bg-card);
+    border: 1.5px solid var(--border-default);
+    border-radius: var(--radius-md);
+    padding: 4px 16px;
+  }
+
+  .review-row {
+    display: flex;
+    justify-content: space-between;
+    gap: 16px;
+    padding: 10px 0;
+    font-size: 14px;
+    border-bottom: 1px solid var(--border-default);
+  }
+
+  .review-row:last-child { border-bottom: none; }
+  .review-row dt { color: var(--text-secondary); }
+  .review-row dd { color: var(--text-primary); text-align: right; }
+
+  /* shipping section animation */
+  .shipping-fields {
+    overflow: hidden;
+    animation: expandin 0.3s ease-out forwards;
+  }
+
+  @keyframes expandin {
+    from { opacity: 0; max-height: 0; }
+    to { opacity: 1; max-height: 500px; }
+  }
+
+  /* error summary */
+  .error-summary {
+    background: var(--error-bg);
+    border: 1px solid var(--error);
+    border-radius: var(--radius-md);
+    padding: 16px;
+    margin-bottom: 24px;
+    animation: fadeslidein 0.3s ease-out;
+  }
+
+  .error-summary-title {
+    font-weight: 600;
+    color: var(--error);
+    margin-bottom: 8px;
+    display: flex;
+    align-items: center;
+    gap: 8px;
+  }
+
+  .error-summary-list {
+    list-style: none;
+    font-size: 14px;
+    color: var(--error);
+  }
+
+  .error-summary-list li { padding: 4px 0; }
+
+  .error-summary-list a {
+    color: inherit;
+    text-decoration: underline;
+    text-underline-offset: 2px;
+  }
+
+  .error-summary-list a:focus-visible {
+    outline: 2px solid var(--error);
+    outline-offset: 2px;
+    border-radius: 2px;
+  }
+
+  /* tech badge */
+  .tech-badge {
+    display: flex;
+    gap: 8px;
+    justify-content: center;
+    margin-bottom: 24px;
+    flex-wrap: wrap;
+  }
+
+  .tech-badge span {
+    background: white;
+    border: 1px solid var(--border-default);
+    padding: 6px 12px;
+    border-radius: 20px;
+    font-size: 12px;
+    font-weight: 500;
+    color: var(--text-secondary);
+  }
+
+  /* language */
+  .locale-picker {
+    display: flex;
+    align-items: center;
+    justify-content: flex-end;
+    gap: 8px;
+    margin-bottom: 24px;
+    font-size: 13px;
+    color: var(--text-secondary);
+  }
+
+  /* form with the order summary beside it */
+  .checkout-container.with-summary {
+    display: grid;
+    grid-template-columns: minmax(0, 520px) 320px;
+    justify-content: center;
+    align-items: start;
+    gap: 40px;
+  }
+
+  .with-summary .checkout-form {
+    width: 100%;
+    margin: 0;
+  }
+
+  @media (max-width: 960px) {
+    .checkout-container.with-summary {
+      grid-template-columns: minmax(0, 520px);
+    }
+
+    .with-summary .order-summary {
+      grid-row: 1;
+    }
+  }
+
+  .order-summary {
+    position: sticky;
+    top: 40px;
+    padding: 24px;
+    background: var(--bg-card);
+    border: 1px solid var(--border-default);
+    border-radius: var(--radius-lg);
+    box-shadow: var(--shadow-sm);
+  }
+
+  .order-summary-header {
+    display: flex;
+    align-items: center;
+    justify-content: space-between;
+    margin-bottom: 16px;
+  }
+
+  .order-summary-header h2 {
+    font-size: 18px;
+    font-weight: 600;
+    color: var(--text-primary);
+  }
+
+  .order-summary-header select {
+    padding: 4px 8px;
+    font-family: inherit;
+    font-size: 13px;
+    color: var(--text-primary);
+    background: var(--bg-card);
+    border: 1px solid var(--border-default);
+    border-radius: var(--radius-sm);
+    cursor: pointer;
+  }
+
+  .order-lines {
+    list-style: none;
+    padding: 0;
+    margin: 0 0 16px;
+  }
+
+  .order-lines li {
+    display: flex;
+    justify-content: space-between;
+    gap: 12px;
+    padding: 10px 0;
+    font-size: 14px;
+    color: var(--text-primary);
+    border-bottom: 1px solid var(--border-default);
+  }
+
+  .order-line-name {
+    display: block;
+    font-weight: 500;
+  }
+
+  .order-line-quantity {
+    font-size: 12px;
+    color: var(--text-secondary);
+  }
+
+  .order-totals {
+    margin: 0;
+    font-size: 14px;
+  }
+
+  .order-totals div {
+    display: flex;
+    justify-content: space-between;
+    padding: 4px 0;
+    color: var(--text-secondary);
+  }
+
+  .order-totals dd {
+    margin: 0;
+    color: var(--text-primary);
+  }
+
+  .order-totals .order-total {
+    margin-top: 8px;
+    padding-top: 12px;
+    font-size: 16px;
+    font-weight: 600;
+    border-top: 1px solid var(--border-default);
+  }
+
+  .order-total dt {
+    color: var(--text-primary);
+  }
+
+  .order-pending {
+    margin: 4px 0;
+    font-size: 12px;
+    color: var(--text-secondary);
+  }
+
+  .locale-picker select {
+    padding: 6px 10px;
+    font-family: inherit;
+    font-size: 13px;
+    color: var(--text-primary);
+    background: var(--bg-card);
+    border: 1px solid var(--border-default);
+    border-radius: var(--radius-sm);
+    cursor: pointer;
+  }
+
+  /* schema-generated fields */
+  .form-subsection {
+    margin-top: 16px;
+  }
+
+  .form-subsection .section-header {
+    font-size: 18px;
+    margin-bottom: 16px;
+  }
+
+  .radio-group {
+    border: none;
+    display: flex;
+    flex-wrap: wrap;
+    gap: 16px;
+  }
+
+  .radio-group legend {
+    font-size: 14px;
+    color: var(--text-secondary);
+    margin-bottom: 8px;
+  }
+
+  .radio-option {
+    display: flex;
+    align-items: center;
+    gap: 8px;
+    font-size: 15px;
+    cursor: pointer;
+  }
+
+  .textarea-label {
+    display: block;
+    font-size: 14px;
+    color: var(--text-secondary);
+    margin-bottom: 8px;
+  }
+
+  .form-textarea {
+    width: 100%;
+    min-height: 100px;
+    padding: 12px 16px;
+    border: 1px solid var(--border-default);
+    border-radius: var(--radius-md);
+    font: inherit;
+    resize: vertical;
+    transition: var(--transition);
+  }
+
+  .form-textarea:focus {
+    outline: none;
+    border-color: var(--border-focus);
+  }
+
+  /* list fields */
+  .field-list {
+    border: none;
+  }
+
+  .field-list-items {
+    display: flex;
+    flex-direction: column;
+    gap: 12px;
+    margin: 0 0 12px;
+    padding: 0;
+    list-style: none;
+  }
+
+  .field-list-row {
+    display: flex;
+    align-items: center;
+    gap: 8px;
+  }
+
+  .field-list-row .input-wrapper {
+    flex: 1;
+  }
+
+  .field-list-actions {
+    display: flex;
+    gap: 4px;
+  }
+
+  .field-list-actions button,
+  .field-list-add {
+    padding: 6px 12px;
+    font-size: 13px;
+    font-weight: 600;
+    font-family: inherit;
+    color: var(--text-primary);
+    background: none;
+    border: 1px solid var(--border-default);
+    border-radius: var(--radius-sm);
+    cursor: pointer;
+    transition: var(--transition);
+  }
+
+  .field-list-actions button:hover:not(:disabled),
+  .field-list-add:hover:not(:disabled) {
+    border-color: var(--border-focus);
+  }
+
+  .field-list-actions button:disabled,
+  .field-list-add:disabled {
+    opacity: 0.4;
+    cursor: not-allowed;
+  }
+`;
+
 // ============================================
 // main checkout form
 // ============================================
 
-export default function checkoutform() {
-  const [issubmitting, setissubmitting] = usestate(false);
+interface checkoutformprops {
+  // one step per section, with a review step before submit
+  wizard?: boolean;
+  // backs the async field checks and order submission; defaults to window.fetch
+  api?: Fetcher;
+  // what is being ordered; defaults to the demo cart
+  items?: LineItem[];
+  // where focus, errors, submits and abandonment are reported; nothing is by default
+  analytics?: FormAnalytics;
+}
+
+export default function checkoutform({
+  wizard = false,
+  api,
+  items = demoCart,
+  analytics,
+}: checkoutformprops) {
+  const stepper = useWizard();
+  const { locale, setLocale } = useLocale();
+  const [currency, setcurrency] = usestate<Currency>("usd");
+
+  const form = useCheckoutForm<CheckoutFormData>({
+    initialValues: defaultValues,
+    paths: fieldPaths,
+    validate: validateCheckout,
+    conditions: checkoutConditions,
+    mode: "onBlur",
+    revalidate: "onChange",
+  });
+  const tracking = useFormAnalytics(form.store, analytics);
+
+  const drafts = useDraft("checkout-draft:classic", form.values, {
+    version: draftversion,
+    isSensitive: issensitivepath,
+  });
+
+  const restoredraft = () => form.setValues(mergeDraft(defaultValues, drafts.restore()));
 
   const {
-    register,
-    handlesubmit,
-    control,
-    formstate: { errors, issubmitted },
-    watch,
-  } = useform<checkoutformdata>({
-    resolver: zodresolver(checkoutformschema),
-    mode: "onblur",
-    revalidatemode: "onchange",
-    defaultvalues: {
+    email = "",
+    password = "",
+    confirmPassword: confirmpassword = "",
+    postalCode: postalcode = "",
+  } = form.fields;
+  const cardbrand = detectCardBrand(form.fields.cardNumber ?? "");
+
+  // async checks run once a value passes the synchronous rules
+  const asyncvalidators = usememo(() => createCheckoutValidators(api), [api]);
+  const asyncvalidation = useAsyncValidation(asyncvalidators);
+
+  // shipping goes to the billing address until a separate one is asked for
+  const destination = form.isVisible("shipping")
+    ? form.values.shipping?.country
+    : form.values.payment?.billing?.country;
+  const summary = computeOrderSummary(items, currency, destination || undefined);
+
+  const submitter = usememo(() => createFetchSubmitter(api), [api]);
+  const submission = useSubmission(submitter);
+
+  const checkasync = (field: string) => {
+    if (!(field in form.fields) || validateField(field, form.fields)) {
+      asyncvalidation.clear(field);
+    } else {
+      asyncvalidation.validate(field, form.fields);
+    }
+  };
+
+  useeffect(() => checkasync("email"), [email]);
+  useeffect(() => checkasync("postalCode"), [postalcode, form.fields.country]);
+
+  const onsubmit = async (data: CheckoutFormData, values: FieldValues) => {
+    const asyncerrors = await asyncvalidation.validateAll(values);
+    if (object.keys(asyncerrors).length > 0) {
+      form.focusFirst(object.keys(asyncerrors).map((field) => fieldPaths[field]));
+      return;
+    }
+
+    const payload = {
+      ...data,
       account: {
-        email: "vicrokx@gmail.com",
-        password: "",
-        confirmpassword: "",
+        ...data.account,
         contact: {
-          phone: "+31683214074",
+          phone: toE164(values.phone ?? "", dependencyValue(checkoutValidations.phone, values)),
         },
       },
-      payment: {
-        method: "",
-        expiry: "",
-        cvv: "123",
-        billingaddress: "",
-        cardnumber: "9999 9999 9999 9999",
-      },
-      shippingdetails: {
-        shippingsameasbilling: false,
-      },
-      shipping: {
-        address: "",
-        country: "",
-        state: "",
-        city: "",
-        postalcode: "",
-      },
-    },
-  });
+      order: summary,
+    };
+
+    const outcome = await submission.submit(payload);
+    if (outcome.ok) {
+      tracking.complete();
+      drafts.clear();
+      return;
+    }
+    const servererrors = mapServerErrors(outcome.fieldErrors, fieldPaths);
+    form.setServerErrors(servererrors);
+    oninvalid(servererrors);
+  };
 
-  const shippingsameasbilling = watch("shippingdetails.shippingsameasbilling");
+  // every shown error, sync or async, in form order; a list's items follow it
+  const summaryerrors = object
+    .keys(fieldPaths)
+    .flatmap((field) => [
+      {
+        field,
+        path: fieldPaths[field],
+        label: fieldLabel(field),
+        message: form.errors[fieldPaths[field]] ?? asyncvalidation.errors[field],
+      },
+      ...object
+        .keys(form.errors)
+        .filter((path) => path !== fieldPaths[field] && isWithin(path, fieldPaths[field]))
+        .map((path) => ({
+          field,
+          path,
+          label: t("list.item", {
+            label: fieldLabel(field),
+            index: Number(path.slice(fieldPaths[field].length + 1)) + 1,
+          }),
+          message: form.errors[path],
+        })),
+    ])
+    .filter((entry) => entry.message);
+
+  // wizard mode: a step is shown on its own, and validated on its own
+  // before the user may move past it
+  const showstep = (id: StepId) => !wizard || stepper.step.id === id;
+
+  const validatestep = (step: WizardStep) => {
+    const valid = form.validatePaths(
+      step.fields.map((field) => fieldPaths[field]).filter((path) => path),
+    );
+    return (
+      valid &&
+      !step.fields.some(
+        (field) => asyncvalidation.pending[field] || asyncvalidation.errors[field],
+      )
+    );
+  };
 
-  const onsubmit = async (data: checkoutformdata) => {
-    setissubmitting(true);
-    console.log("form submitted:", data);
+  // a failed final submit jumps back to the first step with errors
+  const oninvalid = (invalid: FieldErrors) => {
+    if (!wizard) return;
+    const indexes = object
+      .keys(fieldPaths)
+      .filter((field) => object.keys(invalid).some((path) => isWithin(path, fieldPaths[field])))
+      .map((field) => stepIndexOf(field));
+    if (indexes.length > 0) stepper.goTo(math.min(...indexes));
+  };
 
-    // simulate api call
-    await new promise((resolve) => settimeout(resolve, 2000));
-    setissubmitting(false);
-    alert("order submitted successfully!");
+  // summary links: back to the field's step in wizard mode, then focus it
+  const jumptofield = (field: string, path = fieldPaths[field]) => {
+    if (wizard) stepper.goTo(stepIndexOf(field));
+    form.focusFirst([path]);
   };
 
-  const paymentmethods = [
-    { value: "card", label: "credit/debit card" },
-    { value: "paypal", label: "paypal" },
-  ];
-
-  const countries = [
-    { value: "us", label: "united states" },
-    { value: "ca", label: "canada" },
-    { value: "uk", label: "united kingdom" },
-  ];
-
-  // helper to get nested error message
-  const geterror = (path: string): string | undefined => {
-    const keys = path.split(".");
-    let current: any = errors;
-    for (const key of keys) {
-      if (!current?.[key]) return undefined;
-      current = current[key];
+  const submitform = form.handleSubmit(onsubmit, oninvalid);
+
+  const onformsubmit = (e: react.formevent<htmlformelement>) => {
+    if (wizard && !stepper.isLast) {
+      e.preventdefault();
+      stepper.next(validatestep);
+      return;
     }
-    return current?.message;
+    submitform(e);
   };
 
-  const errorcount = object.keys(errors).length;
-
   return (
     <>
-      <style>{`
-        @import url('https://fonts.googleapis.com/css2?family=dm+sans:ital,opsz,wght@0,9..40,100..1000;1,9..40,100..1000&family=instrument+serif:ital@0;1&display=swap');
-
-        * {
-          margin: 0;
-          padding: 0;
-          box-sizing: border-box;
-        }
-
-        :root {
-          --bg-primary: #fafaf9;
-          --bg-card: #ffffff;
-          --text-primary: #1a1a1a;
-          --text-secondary: #6b6b6b;
-          --text-placeholder: #9ca3af;
-          --border-default: #e5e5e5;
-          --border-focus: #1a1a1a;
-          --accent-primary: #facc15;
-          --accent-hover: #eab308;
-          --error: #dc2626;
-          --error-bg: #fef2f2;
-          --success: #16a34a;
-          --shadow-sm: 0 1px 2px rgba(0,0,0,0.04);
-          --shadow-md: 0 4px 12px rgba(0,0,0,0.08);
-          --radius-sm: 8px;
-          --radius-md: 12px;
-          --radius-lg: 16px;
-          --transition: all 0.2s cubic-bezier(0.4, 0, 0.2, 1);
-        }
-
-        .checkout-container {
-          min-height: 100vh;
-          background: var(--bg-primary);
-          padding: 40px 20px;
-          font-family: 'dm sans', -apple-system, blinkmacsystemfont, sans-serif;
-        }
-
-        .checkout-form {
-          max-width: 520px;
-          margin: 0 auto;
-        }
-
-        .form-section {
-          margin-bottom: 32px;
-          animation: fadeslidein 0.5s ease-out forwards;
-          opacity: 0;
-        }
-
-        .form-section:nth-child(1) { animation-delay: 0.05s; }
-        .form-section:nth-child(2) { animation-delay: 0.1s; }
-        .form-section:nth-child(3) { animation-delay: 0.15s; }
-        .form-section:nth-child(4) { animation-delay: 0.2s; }
-        .form-section:nth-child(5) { animation-delay: 0.25s; }
-
-        @keyframes fadeslidein {
-          from {
-            opacity: 0;
-            transform: translatey(12px);
-          }
-          to {
-            opacity: 1;
-            transform: translatey(0);
-          }
-        }
-
-        .section-header {
-          font-family: 'instrument serif', georgia, serif;
-          font-size: 24px;
-          font-weight: 400;
-          color: var(--text-primary);
-          margin-bottom: 20px;
-          letter-spacing: -0.02em;
-        }
-
-        .section-divider {
-          display: flex;
-          align-items: stretch;
-          gap: 16px;
-        }
-
-        .section-line {
-          width: 3px;
-          background: linear-gradient(180deg, var(--accent-primary) 0%, transparent 100%);
-          border-radius: 2px;
-          flex-shrink: 0;
-        }
-
-        .section-content {
-          flex: 1;
-          display: flex;
-          flex-direction: column;
-          gap: 16px;
-        }
-
-        .row {
-          display: grid;
-          gap: 16px;
-        }
-
-        .row-2 { grid-template-columns: 1fr 1fr; }
-        .row-3 { grid-template-columns: 1fr 1fr 1fr; }
-
-        @media (max-width: 480px) {
-          .row-2, .row-3 { grid-template-columns: 1fr; }
-        }
-
-        /* form field styles */
-        .form-field {
-          position: relative;
-        }
-
-        .input-wrapper,
-        .select-wrapper {
-          position: relative;
-        }
-
-        .input-wrapper input,
-        .select-wrapper select {
-          width: 100%;
-          padding: 18px 16px 8px;
-          font-size: 15px;
-          font-family: inherit;
-          color: var(--text-primary);
-          background: var(--bg-card);
-          border: 1.5px solid var(--border-default);
-          border-radius: var(--radius-md);
-          outline: none;
-          transition: var(--transition);
-          -webkit-appearance: none;
-          appearance: none;
-        }
-
-        .select-wrapper select {
-          cursor: pointer;
-          padding-right: 40px;
-        }
-
-        .input-wrapper label,
-        .select-wrapper label {
-          position: absolute;
-          left: 16px;
-          top: 50%;
-          transform: translatey(-50%);
-          font-size: 15px;
-          color: var(--text-placeholder);
-          pointer-events: none;
-          transition: var(--transition);
-          background: transparent;
-        }
-
-        .input-wrapper input:focus,
-        .select-wrapper select:focus {
-          border-color: var(--border-focus);
-          box-shadow: 0 0 0 3px rgba(26, 26, 26, 0.06);
-        }
-
-        .input-wrapper input:focus + label,
-        .input-wrapper input:not(:placeholder-shown) + label,
-        .select-wrapper select:focus + label,
-        .select-wrapper select:not([value=""]) + label {
-          top: 10px;
-          transform: translatey(0);
-          font-size: 11px;
-          font-weight: 500;
-          letter-spacing: 0.02em;
-          text-transform: uppercase;
-          color: var(--text-secondary);
-          background: var(--bg-card);
-          padding: 0 4px;
-          margin-left: -4px;
-        }
-
-        .select-arrow {
-          position: absolute;
-          right: 16px;
-          top: 50%;
-          transform: translatey(-50%);
-          pointer-events: none;
-          color: var(--text-secondary);
-          transition: var(--transition);
-        }
-
-        .select-wrapper select:focus ~ .select-arrow {
-          transform: translatey(-50%) rotate(180deg);
-        }
-
-        /* error states */
-        .has-error .input-wrapper input,
-        .has-error .select-wrapper select {
-          border-color: var(--error);
-          background: var(--error-bg);
-        }
-
-        .has-error .input-wrapper label,
-        .has-error .select-wrapper label {
-          color: var(--error);
-        }
-
-        .error-message {
-          display: flex;
-          align-items: center;
-          gap: 6px;
-          margin-top: 8px;
-          font-size: 13px;
-          color: var(--error);
-          animation: shake 0.4s ease-out;
-        }
-
-        @keyframes shake {
-          0%, 100% { transform: translatex(0); }
-          20% { transform: translatex(-4px); }
-          40% { transform: translatex(4px); }
-          60% { transform: translatex(-4px); }
-          80% { transform: translatex(4px); }
-        }
-
-        /* toggle switch */
-        .toggle-row {
-          display: flex;
-          align-items: center;
-          justify-content: space-between;
-          padding: 8px 0;
-        }
-
-        .toggle-label {
-          font-size: 15px;
-          color: var(--text-primary);
-        }
-
-        .toggle-switch {
-          position: relative;
-          width: 52px;
-          height: 28px;
-          border: none;
-          border-radius: 14px;
-          cursor: pointer;
-          transition: var(--transition);
-          overflow: hidden;
-        }
-
-        .toggle-off { background: var(--border-default); }
-        .toggle-on { background: var(--accent-primary); }
-
-        .toggle-thumb {
-          position: absolute;
-          top: 3px;
-          left: 3px;
-          width: 22px;
-          height: 22px;
-          background: white;
-          border-radius: 50%;
-          transition: var(--transition);
-          box-shadow: var(--shadow-sm);
-        }
-
-        .toggle-on .toggle-thumb {
-          transform: translatex(24px);
-        }
-
-        .toggle-dots {
-          position: absolute;
-          right: 8px;
-          top: 50%;
-          transform: translatey(-50%);
-          display: grid;
-          grid-template-columns: repeat(3, 4px);
-          grid-template-rows: repeat(2, 4px);
-          gap: 2px;
-          opacity: 0.5;
-        }
-
-        .toggle-on .toggle-dots {
-          right: auto;
-          left: 8px;
-        }
-
-        .toggle-dot {
-          width: 4px;
-          height: 4px;
-          background: white;
-          border-radius: 50%;
-        }
-
-        /* submit button */
-        .submit-btn {
-          width: 100%;
-          padding: 18px 24px;
-          font-size: 16px;
-          font-weight: 600;
-          font-family: inherit;
-          color: white;
-          background: var(--text-primary);
-          border: none;
-          border-radius: var(--radius-md);
-          cursor: pointer;
-          transition: var(--transition);
-          position: relative;
-          overflow: hidden;
-          margin-top: 16px;
-        }
-
-        .submit-btn:hover:not(:disabled) {
-          background: #2a2a2a;
-          transform: translatey(-1px);
-          box-shadow: var(--shadow-md);
-        }
-
-        .submit-btn:active:not(:disabled) {
-          transform: translatey(0);
-        }
-
-        .submit-btn:disabled {
-          opacity: 0.7;
-          cursor: not-allowed;
-        }
-
-        .submit-btn .spinner {
-          display: inline-block;
-          width: 20px;
-          height: 20px;
-          border: 2px solid rgba(255,255,255,0.3);
-          border-top-color: white;
-          border-radius: 50%;
-          animation: spin 0.8s linear infinite;
-          margin-right: 8px;
-          vertical-align: middle;
-        }
-
-        @keyframes spin {
-          to { transform: rotate(360deg); }
-        }
-
-        /* shipping section animation */
-        .shipping-fields {
-          overflow: hidden;
-          animation: expandin 0.3s ease-out forwards;
-        }
-
-        @keyframes expandin {
-          from { opacity: 0; max-height: 0; }
-          to { opacity: 1; max-height: 500px; }
-        }
-
-        /* error summary */
-        .error-summary {
-          background: var(--error-bg);
-          border: 1px solid var(--error);
-          border-radius: var(--radius-md);
-          padding: 16px;
-          margin-bottom: 24px;
-          animation: fadeslidein 0.3s ease-out;
-        }
-
-        .error-summary-title {
-          font-weight: 600;
-          color: var(--error);
-          margin-bottom: 8px;
-          display: flex;
-          align-items: center;
-          gap: 8px;
-        }
-
-        .error-summary-list {
-          list-style: none;
-          font-size: 14px;
-          color: var(--error);
-        }
-
-        .error-summary-list li { padding: 4px 0; }
-
-        /* tech badge */
-        .tech-badge {
-          display: flex;
-          gap: 8px;
-          justify-content: center;
-          margin-bottom: 24px;
-          flex-wrap: wrap;
-        }
-
-        .tech-badge span {
-          background: white;
-          border: 1px solid var(--border-default);
-          padding: 6px 12px;
-          border-radius: 20px;
-          font-size: 12px;
-          font-weight: 500;
-          color: var(--text-secondary);
-        }
-      `}</style>
-
-      <div classname="checkout-container">
+      <style>{checkoutstyles}</style>
+
+      <div classname="checkout-container with-summary" lang={locale}>
         <form
+          ref={tracking.ref}
           classname="checkout-form"
-          onsubmit={handlesubmit(onsubmit)}
+          onsubmit={onformsubmit}
           novalidate
         >
           {/* tech stack badge */}
           <div classname="tech-badge">
-            <span>react hook form</span>
+            <span>react</span>
             <span>zod</span>
             <span>typescript</span>
           </div>
 
-          {/* error summary */}
-          {issubmitted && errorcount > 0 && (
-            <div classname="error-summary">
-              <div classname="error-summary-title">
-                <svg
-                  width="18"
-                  height="18"
-                  viewbox="0 0 24 24"
-                  fill="none"
-                  stroke="currentcolor"
-                  strokewidth="2"
-                >
-                  <circle cx="12" cy="12" r="10" />
-                  <line x1="12" y1="8" x2="12" y2="12" />
-                  <line x1="12" y1="16" x2="12.01" y2="16" />
-                </svg>
-                please fix the errors below
+          {/* language */}
+          <div classname="locale-picker">
+            <label htmlfor="checkout-locale">{t("form.language")}</label>
+            <select
+              id="checkout-locale"
+              value={locale}
+              onchange={(e) => setLocale(e.target.value as Locale)}
+            >
+              {locales.map((code) => (
+                <option key={code} value={code}>
+                  {localeNames[code]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* saved draft */}
+          {drafts.draft && (
+            <div classname="draft-banner" role="status">
+              <span>{t("draft.found", { age: draftAge(drafts.draft.savedAt) })}</span>
+              <div classname="draft-actions">
+                <button type="button" onclick={restoredraft}>
+                  {t("draft.restore")}
+                </button>
+                <button type="button" onclick={drafts.discard}>
+                  {t("draft.discard")}
+                </button>
               </div>
             </div>
           )}
 
-          {/* account section */}
-          <div classname="form-section">
-            <h2 classname="section-header">account</h2>
-            <div classname="row row-2">
-              <forminput
-                label="email"
-                type="email"
-                register={register("account.email")}
-                error={geterror("account.email")}
-                autocomplete="email"
-              />
-              <forminput
-                label="password"
-                type="password"
-                register={register("account.password")}
-                error={geterror("account.password")}
-                autocomplete="new-password"
-              />
+          {/* wizard progress */}
+          {wizard && (
+            <ol classname="wizard-progress">
+              {stepper.steps.map((step, i) => (
+                <li
+                  key={step.id}
+                  classname={`wizard-step ${
+                    i === stepper.index ? "wizard-step-active" : ""
+                  } ${i < stepper.index ? "wizard-step-done" : ""}`}
+                >
+                  <button
+                    type="button"
+                    onclick={() => stepper.goTo(i)}
+                    disabled={i >= stepper.index}
+                    aria-current={i === stepper.index ? "step" : undefined}
+                  >
+                    <span classname="wizard-step-number">{i + 1}</span>
+                    {stepTitle(step)}
+                  </button>
+                </li>
+              ))}
+            </ol>
+          )}
+
+          {/* submission outcome */}
+          {submission.outcome && (
+            <div
+              classname={`submit-status ${submission.outcome.ok ? "success" : "failure"}`}
+              role={submission.outcome.ok ? "status" : "alert"}
+            >
+              {submission.outcome.ok
+                ? t("submission.placed", { orderId: submission.outcome.orderId })
+                : submission.outcome.message}
             </div>
-            <forminput
-              label="confirm password"
-              type="password"
-              register={register("account.confirmpassword")}
-              error={geterror("account.confirmpassword")}
-              autocomplete="new-password"
-            />
+          )}
+
+          {/* error summary: a live region, so changes to the list are announced */}
+          <div aria-live="polite">
+            {form.submitted && summaryerrors.length > 0 && (
+              <div classname="error-summary">
+                <div classname="error-summary-title" id="error-summary-title">
+                  <svg
+                    aria-hidden="true"
+                    width="18"
+                    height="18"
+                    viewbox="0 0 24 24"
+                    fill="none"
+                    stroke="currentcolor"
+                    strokewidth="2"
+                  >
+                    <circle cx="12" cy="12" r="10" />
+                    <line x1="12" y1="8" x2="12" y2="12" />
+                    <line x1="12" y1="16" x2="12.01" y2="16" />
+                  </svg>
+                  {t("form.fixErrors")}
+                </div>
+                <ul classname="error-summary-list" aria-labelledby="error-summary-title">
+                  {summaryerrors.map(({ field, path, label, message }) => (
+                    <li key={path}>
+                      <a
+                        href={`#${path}`}
+                        onclick={(e) => {
+                          e.preventdefault();
+                          jumptofield(field, path);
+                        }}
+                      >
+                        {label}: {message}
+                      </a>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </div>
 
-          {/* contact section */}
-          <div classname="form-section">
-            <div classname="section-divider">
-              <div classname="section-line" />
-              <div classname="section-content">
-                <h3
-                  classname="section-header"
-                  style={{ marginbottom: 8, fontsize: 18 }}
-                >
-                  contact
-                </h3>
-                <forminput
-                  label="phone"
-                  type="tel"
-                  register={register("account.contact.phone")}
-                  error={geterror("account.contact.phone")}
-                  autocomplete="tel"
-                  transform={formatphone}
+          {showstep("account") && (
+            <>
+              {/* account section */}
+              <div classname="form-section">
+                <h2 classname="section-header">{t("section.account")}</h2>
+                <div classname="row row-2">
+                  <forminput
+                    label={t("label.email")}
+                    type="email"
+                    field={form.field("account.email")}
+                    error={form.field("account.email").error ?? asyncvalidation.errors.email}
+                    pending={asyncvalidation.pending.email}
+                    autocomplete="email"
+                  />
+                  <passwordinput
+                    label={t("label.password")}
+                    field={form.field("account.password")}
+                    autocomplete="new-password"
+                    strength={{ password, email }}
+                  />
+                </div>
+                <passwordinput
+                  label={t("label.confirmPassword")}
+                  field={form.field("account.confirmpassword")}
+                  autocomplete="new-password"
+                  hint={
+                    confirmpassword && confirmpassword === password
+                      ? t("password.match")
+                      : undefined
+                  }
+                />
+                <ListField
+                  form={form}
+                  path="account.notes"
+                  label="label.notes"
+                  maxItems={checkoutValidations.notes.max_items}
                 />
               </div>
-            </div>
-          </div>
+            </>
+          )}
 
-          {/* payment section */}
-          <div classname="form-section">
-            <h2 classname="section-header">payment</h2>
-            <formselect
-              label="payment method"
-              register={register("payment.method")}
-              options={paymentmethods}
-              error={geterror("payment.method")}
-            />
-            <div classname="row row-3">
-              <forminput
-                label="expiry"
-                register={register("payment.expiry")}
-                error={geterror("payment.expiry")}
-                autocomplete="cc-exp"
-                transform={formatexpiry}
-              />
-              <forminput
-                label="cvv"
-                register={register("payment.cvv")}
-                error={geterror("payment.cvv")}
-                autocomplete="cc-csc"
-                transform={(v) => v.replace(/\d/g, "").slice(0, 4)}
-              />
-              <forminput
-                label="billing address"
-                register={register("payment.billingaddress")}
-                error={geterror("payment.billingaddress")}
-                autocomplete="billing street-address"
-              />
-            </div>
-            <forminput
-              label="card number"
-              register={register("payment.cardnumber")}
-              error={geterror("payment.cardnumber")}
-              autocomplete="cc-number"
-              transform={(v) => formatcardnumber(v).slice(0, 19)}
-            />
-          </div>
+          {showstep("payment") && (
+            <>
+              {/* payment section */}
+              <div classname="form-section">
+                <h2 classname="section-header">{t("section.payment")}</h2>
+                <formselect
+                  label={t("label.method")}
+                  field={form.field("payment.method")}
+                  options={paymentmethods}
+                />
 
-          {/* shipping details section */}
-          <div classname="form-section">
-            <h2 classname="section-header">shipping details</h2>
-            <div classname="toggle-row">
-              <span classname="toggle-label">shipping same as billing</span>
-              <controller
-                name="shippingdetails.shippingsameasbilling"
-                control={control}
-                render={({ field }) => (
-                  <toggle checked={field.value} onchange={field.onchange} />
+                {/* fields of the chosen method */}
+                {form.isVisible("payment.cardnumber") && (
+                  <>
+                    <div classname="row row-2">
+                      <forminput
+                        label={t("label.expiry")}
+                        field={form.field("payment.expiry")}
+                        autocomplete="cc-exp"
+                      />
+                      <forminput
+                        label={t("label.cvv")}
+                        field={form.field("payment.cvv")}
+                        autocomplete="cc-csc"
+                      />
+                    </div>
+                    <forminput
+                      label={t("label.cardNumber")}
+                      field={form.field("payment.cardnumber")}
+                      autocomplete="cc-number"
+                      badge={cardbrand && cardBrands[cardbrand].label}
+                    />
+                  </>
+                )}
+                {form.isVisible("payment.paypalemail") && (
+                  <forminput
+                    label={t("label.paypalEmail")}
+                    type="email"
+                    field={form.field("payment.paypalemail")}
+                    autocomplete="email"
+                  />
                 )}
-              />
-            </div>
-
-            {/* conditional shipping fields */}
-            {!shippingsameasbilling && (
-              <div classname="shipping-fields">
                 <div style={{ margintop: 16 }}>
                   <h3
                     classname="section-header"
                     style={{ fontsize: 18, marginbottom: 16 }}
                   >
-                    shipping
+                    {t("section.billingAddress")}
                   </h3>
-                  <div classname="section-content">
-                    <forminput
-                      label="address"
-                      register={register("shipping.address")}
-                      error={geterror("shipping.address")}
-                      autocomplete="shipping street-address"
-                    />
-                    <formselect
-                      label="country"
-                      register={register("shipping.country")}
-                      options={countries}
-                      error={geterror("shipping.country")}
-                    />
-                    <div classname="row row-2">
-                      <forminput
-                        label="state"
-                        register={register("shipping.state")}
-                        error={geterror("shipping.state")}
-                        autocomplete="shipping address-level1"
-                      />
-                      <forminput
-                        label="city"
-                        register={register("shipping.city")}
-                        error={geterror("shipping.city")}
-                        autocomplete="shipping address-level2"
+                  <addressfields form={form} base="payment.billing" section="billing" />
+                </div>
+              </div>
+            </>
+          )}
+
+          {showstep("shipping") && (
+            <>
+              {/* shipping details section */}
+              <div classname="form-section">
+                <h2 classname="section-header">{t("section.shippingDetails")}</h2>
+                <div classname="toggle-row">
+                  <span classname="toggle-label">{t("label.shippingSameAsBilling")}</span>
+                  <toggle
+                    checked={form.toggle("shippingdetails.shippingsameasbilling").checked}
+                    onchange={form.toggle("shippingdetails.shippingsameasbilling").onChange}
+                  />
+                </div>
+
+                {/* conditional shipping fields */}
+                {form.isVisible("shipping") && (
+                  <div classname="shipping-fields">
+                    <div style={{ margintop: 16 }}>
+                      <h3
+                        classname="section-header"
+                        style={{ fontsize: 18, marginbottom: 16 }}
+                      >
+                        {t("section.shipping")}
+                      </h3>
+                      <addressfields
+                        form={form}
+                        base="shipping"
+                        section="shipping"
+                        postalcheck={{
+                          error: asyncvalidation.errors.postalCode,
+                          pending: asyncvalidation.pending.postalCode,
+                        }}
                       />
                     </div>
+                  </div>
+                )}
+              </div>
+
+              {/* contact section, after the countries the phone is checked against */}
+              <div classname="form-section">
+                <div classname="section-divider">
+                  <div classname="section-line" />
+                  <div classname="section-content">
+                    <h3
+                      classname="section-header"
+                      style={{ marginbottom: 8, fontsize: 18 }}
+                    >
+                      {t("section.contact")}
+                    </h3>
                     <forminput
-                      label="postal code"
-                      register={register("shipping.postalcode")}
-                      error={geterror("shipping.postalcode")}
-                      autocomplete="shipping postal-code"
+                      label={t("label.phone")}
+                      type="tel"
+                      field={form.field("account.contact.phone")}
+                      autocomplete="tel"
                     />
                   </div>
                 </div>
               </div>
+            </>
+          )}
+
+          {/* review step */}
+          {wizard && showstep("review") && (
+            <div classname="form-section">
+              <h2 classname="section-header">{t("section.review")}</h2>
+              {reviewSections({ ...form.fields, ...form.lists }).map((section) => (
+                <div key={section.title} classname="review-group">
+                  <h3 classname="review-title">{section.title}</h3>
+                  <dl classname="review-list">
+                    {section.rows.map((row) => (
+                      <div key={row.label} classname="review-row">
+                        <dt>{row.label}</dt>
+                        <dd>{row.value}</dd>
+                      </div>
+                    ))}
+                  </dl>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* navigation and submit */}
+          <div classname="form-actions">
+            {wizard && !stepper.isFirst && (
+              <button type="button" classname="back-btn" onclick={stepper.back}>
+                {t("form.back")}
+              </button>
             )}
+            <button
+              type="submit"
+              classname="submit-btn"
+              disabled={form.isSubmitting || asyncvalidation.isPending}
+            >
+              {form.isSubmitting && <span classname="spinner" />}
+              {form.isSubmitting
+                ? t("form.processing")
+                : wizard && !stepper.isLast
+                  ? t("form.next")
+                  : t("form.submit")}
+            </button>
           </div>
-
-          {/* submit button */}
-          <button type="submit" classname="submit-btn" disabled={issubmitting}>
-            {issubmitting && <span classname="spinner" />}
-            {issubmitting ? "processing..." : "submit"}
-          </button>
         </form>
+
+        <ordersummary summary={summary} oncurrencychange={setcurrency} />
+      </div>
+    </>
+  );
+}
+
+// ============================================
+// schema-driven checkout form
+// ============================================
+
+// the same checkout generated from checkoutFormSchema, like vaporize.form on
+// the zig side. payment method and country plug in their own selects, like
+// __components there.
+const schemacomponents: SchemaComponents = {
+  method: ({ node, field }) => (
+    <formselect label={t(node.label)} options={paymentmethods} field={field} />
+  ),
+  country: ({ node, field }) => (
+    <formselect label={t(node.label)} options={countries} field={field} />
+  ),
+};
+
+interface schemacheckoutformprops {
+  // backs order submission; defaults to window.fetch
+  api?: Fetcher;
+}
+
+export function schemacheckoutform({ api }: schemacheckoutformprops) {
+  const { locale } = useLocale();
+  const submitter = usememo(() => createFetchSubmitter(api), [api]);
+  const submission = useSubmission(submitter);
+
+  return (
+    <>
+      <style>{checkoutstyles}</style>
+
+      <div classname="checkout-container" lang={locale}>
+        <SchemaForm<CheckoutFormData>
+          schema={checkoutFormSchema}
+          className="checkout-form"
+          defaultValues={defaultValues}
+          components={schemacomponents}
+          conditions={checkoutConditions}
+          onSubmit={async (data) => {
+            await submission.submit(data);
+          }}
+        />
+
+        {/* submission outcome */}
+        {submission.outcome && (
+          <div
+            classname={`submit-status ${submission.outcome.ok ? "success" : "failure"}`}
+            role={submission.outcome.ok ? "status" : "alert"}
+          >
+            {submission.outcome.ok
+              ? t("submission.placed", { orderId: submission.outcome.orderId })
+              : submission.outcome.message}
+          </div>
+        )}
       </div>
     </>
   );
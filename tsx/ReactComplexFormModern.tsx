@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -18,151 +18,55 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from '@/components/ui/tooltip';
+import {
+  checkoutValidations,
+  dependencyValue,
+  isSensitiveField,
+  validateField,
+} from './checkoutValidation';
+import { cardBrands, cvvLengthFor, detectCardBrand } from './cardBrands';
+import { phoneMetadataFor, toE164 } from './phoneNumbers';
+import { postalCodeFormatFor } from './postalCodes';
+import { subdivisionInfoFor } from './subdivisions';
+import { paymentConditions, paymentKindOf } from './paymentMethods';
+import { reviewSections, stepIndexOf, stepTitle, useWizard } from './checkoutWizard';
+import { draftAge, mergeDraft, useDraft } from './checkoutDrafts';
+import { createCheckoutValidators, useAsyncValidation } from './asyncValidation';
+import { checkPasswordRequirements, passwordStrength } from './passwordStrength';
+import { useCheckoutFormStore, useFormField, useFormState, useFormToggle } from './useCheckoutForm';
+import { shallowEqual } from './formStore';
+import { useFieldArray } from './useFieldArray';
+import { createFetchSubmitter, mapServerErrors, useSubmission } from './checkoutSubmission';
+import { ariaFor, errorIdFor } from './fieldAria';
+import { useMaskedInput } from './inputMask';
+import { localeNames, locales, t, useLocale } from './i18n';
+import { useRenderCount } from './renderCounts';
+import { useFormAnalytics } from './formAnalytics';
+import {
+  computeOrderSummary,
+  currencies,
+  demoCart,
+  formatMoney,
+  formatRate,
+} from './orderSummary';
 
-// Luhn algorithm for credit card validation
-const isValidCardNumber = (cardNumber) => {
-  const digits = cardNumber.replace(/\s/g, '');
-  
-  // Must be 13-16 digits
-  if (!/^\d{13,16}$/.test(digits)) return false;
-  
-  // Luhn algorithm
-  let sum = 0;
-  let isEven = false;
-  
-  for (let i = digits.length - 1; i >= 0; i--) {
-    let digit = parseInt(digits[i], 10);
-    
-    if (isEven) {
-      digit *= 2;
-      if (digit > 9) {
-        digit -= 9;
-      }
-    }
-    
-    sum += digit;
-    isEven = !isEven;
-  }
-  
-  return sum % 10 === 0;
-};
-
-// Formatting utilities
-const formatters = {
-  // Credit card: 1234 5678 9012 3456
-  cardNumber: (value) => {
-    const digits = value.replace(/\D/g, '').slice(0, 16);
-    const groups = digits.match(/.{1,4}/g);
-    return groups ? groups.join(' ') : '';
-  },
-  
-  // Expiry: MM/YY
-  expiry: (value) => {
-    const digits = value.replace(/\D/g, '').slice(0, 4);
-    if (digits.length >= 2) {
-      let month = digits.slice(0, 2);
-      // Ensure month is 01-12
-      if (parseInt(month) > 12) month = '12';
-      if (parseInt(month) === 0) month = '01';
-      return month + (digits.length > 2 ? '/' + digits.slice(2) : '');
-    }
-    return digits;
-  },
-  
-  // CVV: 123 or 1234
-  cvv: (value) => {
-    return value.replace(/\D/g, '').slice(0, 4);
-  },
-  
-  // Phone: (123) 456-7890
-  phone: (value) => {
-    const digits = value.replace(/\D/g, '').slice(0, 10);
-    if (digits.length === 0) return '';
-    if (digits.length <= 3) return `(${digits}`;
-    if (digits.length <= 6) return `(${digits.slice(0, 3)}) ${digits.slice(3)}`;
-    return `(${digits.slice(0, 3)}) ${digits.slice(3, 6)}-${digits.slice(6)}`;
-  },
-  
-  // Postal code: 12345 or 12345-6789
-  postalCode: (value) => {
-    const digits = value.replace(/\D/g, '').slice(0, 9);
-    if (digits.length <= 5) return digits;
-    return `${digits.slice(0, 5)}-${digits.slice(5)}`;
-  },
-};
-
-// Validation function matching the Zig framework's __validations
-const validateForm = (values) => {
-  const errors = {};
-  
-  // email: Validation{ .field_type = .email }
-  if (!values.email || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(values.email)) {
-    errors.email = 'Must be a valid email address';
-  }
-  
-  // password: Validation{ .field_type = .password }
-  if (!values.password || !/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d).{8,}$/.test(values.password)) {
-    errors.password = 'Password must be at least 8 characters with uppercase, lowercase, and numbers';
-  }
-  
-  // confirm_password: Validation{ .field_type = .password, .target_field = "password", .match = true }
-  if (!values.confirmPassword || values.confirmPassword !== values.password) {
-    errors.confirmPassword = 'Password must be at least 8 characters with uppercase, lowercase, and numbers';
-  }
-  
-  // notes: Validation{ .field_type = .string, .required = true, .err = "Notes are required" }
-  if (!values.notes) {
-    errors.notes = 'Notes are required';
-  }
-  
-  // card_number: Validation{ .field_type = .credit_card }
-  if (!values.cardNumber || !isValidCardNumber(values.cardNumber)) {
-    errors.cardNumber = 'Must be a valid credit card number';
-  }
-  
-  // expiry: Validation{ .field_type = .expiry, .placeholder = "MM/YY" }
-  if (!values.expiry || !/^(0[1-9]|1[0-2])\/\d{2}$/.test(values.expiry)) {
-    errors.expiry = 'Invalid format';
-  }
-  
-  // cvv: Validation{ .field_type = .cvv, .placeholder = "123", .err = "CVV is required" }
-  if (!values.cvv || !/^\d{3,4}$/.test(values.cvv)) {
-    errors.cvv = 'CVV is required';
-  }
-  
-  // Shipping fields - always validate (the toggle controls visibility in your framework)
-  // address: Validation{ .field_type = .string, .required = true }
-  if (!values.address) {
-    errors.address = 'This field is required';
-  }
-  
-  // state: Validation{ .field_type = .string, .required = true }
-  if (!values.state) {
-    errors.state = 'This field is required';
-  }
-  
-  // city: Validation{ .field_type = .string, .required = true }
-  if (!values.city) {
-    errors.city = 'This field is required';
-  }
-  
-  // postal_code: Validation{ .field_type = .string, .required = true }
-  if (!values.postalCode) {
-    errors.postalCode = 'This field is required';
-  }
-  
-  return errors;
-};
-
-// Error Message Component with Tooltip
-const ErrorMessage = ({ error, show }) => {
+// Error Message Component with Tooltip. Long messages are truncated: the
+// tooltip shows the full text on hover, a tap expands it in place (touch
+// devices have no hover), and screen readers always get the full text
+// through the field's aria-describedby.
+const ErrorMessage = ({ id, error, show }) => {
+  const [expanded, setExpanded] = useState(false);
   if (!show || !error) return null;
   
   return (
-    <div className="overflow-hidden transition-all duration-300 ease-out max-h-10 opacity-100 mt-1.5">
+    <div className={`transition-all duration-300 ease-out opacity-100 mt-1.5 ${expanded ? '' : 'overflow-hidden max-h-10'}`}>
       <Tooltip delayDuration={100}>
         <TooltipTrigger asChild>
-          <p className="text-xs text-destructive truncate cursor-default max-w-full">
+          <p
+            id={id}
+            onClick={() => setExpanded(!expanded)}
+            className={`text-xs text-destructive cursor-default max-w-full ${expanded ? 'whitespace-normal break-words' : 'truncate'}`}
+          >
             {error}
           </p>
         </TooltipTrigger>
@@ -170,6 +74,7 @@ const ErrorMessage = ({ error, show }) => {
           side="top" 
           align="center"
           sideOffset={8}
+          aria-hidden="true"
           className="bg-[#f97316] text-white border-0 px-3 py-2 text-sm font-medium max-w-xs rounded-lg shadow-lg"
         >
           <p>{error}</p>
@@ -182,12 +87,18 @@ const ErrorMessage = ({ error, show }) => {
   );
 };
 
-// Styled Select Component
-const StyledSelect = ({ placeholder, options, value, onChange, error, showError }) => {
+// Styled Select Component. Option labels and descriptions may be message keys
+const StyledSelect = ({ id, placeholder, options, value, onChange, onBlur, error, showError = true }) => {
+  const shownError = showError ? error : undefined;
+  
   return (
     <div className="relative flex-1 min-w-[150px]">
       <Select value={value} onValueChange={onChange}>
         <SelectTrigger 
+          id={id}
+          aria-label={placeholder}
+          onBlur={onBlur}
+          {...ariaFor(id, shownError)}
           className="h-12 bg-white border-gray-200 hover:border-gray-300 transition-colors duration-200 
             focus:ring-2 focus:ring-offset-0 focus:ring-blue-500/20 focus:border-blue-500
             data-[placeholder]:text-muted-foreground/70"
@@ -209,9 +120,9 @@ const StyledSelect = ({ placeholder, options, value, onChange, error, showError
               <div className="flex items-center gap-3">
                 {option.icon && <span className="text-lg">{option.icon}</span>}
                 <div>
-                  <p className="font-medium">{option.label}</p>
+                  <p className="font-medium">{t(option.label)}</p>
                   {option.description && (
-                    <p className="text-xs text-muted-foreground mt-0.5">{option.description}</p>
+                    <p className="text-xs text-muted-foreground mt-0.5">{t(option.description)}</p>
                   )}
                 </div>
               </div>
@@ -219,7 +130,7 @@ const StyledSelect = ({ placeholder, options, value, onChange, error, showError
           ))}
         </SelectContent>
       </Select>
-      <ErrorMessage error={error} show={showError} />
+      <ErrorMessage id={errorIdFor(id)} error={error} show={showError} />
     </div>
   );
 };
@@ -231,14 +142,23 @@ const FloatingInput = ({
   type = 'text', 
   value, 
   onChange, 
+  onBlur,
   error, 
-  showError,
+  showError = true,
   placeholder = '',
   maxLength,
-  inputMode
+  inputMode,
+  badge,
+  trailing,
+  onKeyDown,
+  onKeyUp,
+  pending = false,
+  mask
 }) => {
   const [isFocused, setIsFocused] = useState(false);
   const isFloating = isFocused || value;
+  // Masked fields (card number, expiry, ...) keep the caret where it was
+  const masked = useMaskedInput({ value, onChange, mask });
   
   return (
     <div className="relative flex-1 min-w-[150px]">
@@ -254,24 +174,179 @@ const FloatingInput = ({
           {label}
         </Label>
         <Input
+          ref={masked.ref}
           id={name}
           name={name}
           type={type}
           value={value}
-          onChange={onChange}
+          onChange={masked.onChange}
           onFocus={() => setIsFocused(true)}
-          onBlur={() => setIsFocused(false)}
+          onBlur={() => {
+            setIsFocused(false);
+            onBlur?.();
+          }}
+          onKeyDown={onKeyDown}
+          onKeyUp={onKeyUp}
           placeholder={isFocused ? placeholder : ''}
           maxLength={maxLength}
           inputMode={inputMode}
-          className="h-12 transition-all duration-200"
+          {...ariaFor(name, showError ? error : undefined)}
+          className={`h-12 transition-all duration-200 ${badge || trailing ? 'pr-24' : ''}`}
         />
+        {badge && (
+          <span className="absolute right-3 top-1/2 -translate-y-1/2 rounded-md border bg-muted px-2 py-0.5 text-xs font-semibold text-muted-foreground pointer-events-none">
+            {badge}
+          </span>
+        )}
+        {trailing && (
+          <div className="absolute right-2 top-1/2 -translate-y-1/2">{trailing}</div>
+        )}
       </div>
-      <ErrorMessage error={error} show={showError} />
+      {pending && !(showError && error) && (
+        <p className="mt-1.5 text-xs text-muted-foreground animate-pulse" aria-live="polite">
+          {t('form.validating')}
+        </p>
+      )}
+      <ErrorMessage id={errorIdFor(name)} error={error} show={showError} />
+    </div>
+  );
+};
+
+const STRENGTH_COLORS = ['bg-red-500', 'bg-red-500', 'bg-amber-500', 'bg-green-500', 'bg-green-500'];
+
+// Password Input with show/hide toggle, Caps Lock warning and, with
+// `showStrength`, a live requirement checklist and strength meter
+const PasswordField = ({
+  label,
+  name,
+  value,
+  onChange,
+  onBlur,
+  error,
+  showError = true,
+  email,
+  hint,
+  showStrength = false
+}) => {
+  const [visible, setVisible] = useState(false);
+  const [capsLock, setCapsLock] = useState(false);
+  const detectCapsLock = (e) => setCapsLock(e.getModifierState('CapsLock'));
+  const strength = showStrength && value ? passwordStrength(value, email) : undefined;
+  
+  return (
+    <div className="relative flex-1 min-w-[150px]">
+      <FloatingInput
+        label={label}
+        name={name}
+        type={visible ? 'text' : 'password'}
+        value={value}
+        onChange={onChange}
+        onBlur={onBlur}
+        error={error}
+        showError={showError}
+        onKeyDown={detectCapsLock}
+        onKeyUp={detectCapsLock}
+        trailing={
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => setVisible(!visible)}
+            aria-label={visible ? t('password.hide') : t('password.show')}
+            aria-pressed={visible}
+            className="h-8 px-2 text-xs text-muted-foreground"
+          >
+            {visible ? t('password.toggleHide') : t('password.toggleShow')}
+          </Button>
+        }
+      />
+      {capsLock && (
+        <p className="mt-1.5 text-xs font-medium text-amber-600" role="status">
+          {t('password.capsLock')}
+        </p>
+      )}
+      {hint && !(showError && error) && (
+        <p className="mt-1.5 text-xs text-green-600">{hint}</p>
+      )}
+      {strength && (
+        <div className="flex items-center gap-3 mt-2">
+          <div className="grid flex-1 grid-cols-4 gap-1" aria-hidden="true">
+            {[0, 1, 2, 3].map((i) => (
+              <span
+                key={i}
+                className={`h-1 rounded-full transition-colors duration-200
+                  ${i < Math.max(strength.score, 1) ? STRENGTH_COLORS[strength.score] : 'bg-gray-200'}`}
+              />
+            ))}
+          </div>
+          <span className="min-w-[56px] text-right text-xs text-muted-foreground" aria-live="polite">
+            {strength.label}
+          </span>
+        </div>
+      )}
+      {showStrength && (
+        <ul className="grid grid-cols-2 gap-x-3 gap-y-1 mt-2 text-xs" aria-label={t('password.requirements')}>
+          {checkPasswordRequirements(value).map((requirement) => (
+            <li
+              key={requirement.id}
+              className={requirement.met ? 'text-green-600' : 'text-muted-foreground/70'}
+            >
+              {requirement.met ? '✓' : '○'} {requirement.label}
+            </li>
+          ))}
+        </ul>
+      )}
     </div>
   );
 };
 
+// Render count of the component it sits in, shown when render counting is
+// on (`?renders`, see renderCounts.ts)
+const RenderBadge = ({ count }) => {
+  if (count === undefined) return null;
+  
+  return (
+    <span
+      aria-hidden="true"
+      className="absolute -top-2 -right-2 z-20 min-w-[20px] rounded-full bg-fuchsia-600 px-1.5 text-center text-[10px] font-semibold leading-5 text-white pointer-events-none"
+    >
+      {count}
+    </span>
+  );
+};
+
+const NO_PROPS = {};
+const noProps = () => NO_PROPS;
+
+// One field of the form, rendered `as` any of the inputs above. It follows
+// only its own binding, plus whatever `select` picks for props that depend on
+// other fields (the CVV length on the card number), so a keystroke re-renders
+// just the field it went to. `select` must be defined outside the render.
+// `asyncError` shows as soon as it is set, like a server error.
+const FormField = React.memo(({ form, name, as: Field = FloatingInput, select = noProps, asyncError, ...props }) => {
+  useLocale();
+  const field = useFormField(form, name);
+  const selected = useFormState(form, select, shallowEqual);
+  const renders = useRenderCount(`FormField ${name}`);
+  const rendered = (
+    <Field
+      {...field}
+      {...props}
+      {...selected}
+      error={field.error ?? asyncError}
+      showError={field.showError || Boolean(asyncError)}
+    />
+  );
+  
+  if (renders === undefined) return rendered;
+  return (
+    <div className="relative flex-1 min-w-[150px]">
+      {rendered}
+      <RenderBadge count={renders} />
+    </div>
+  );
+});
+
 // Section Component
 const FormSection = ({ title, children, nested = false }) => {
   return (
@@ -284,280 +359,785 @@ const FormSection = ({ title, children, nested = false }) => {
   );
 };
 
+// Wizard Progress Component
+const WizardProgress = ({ steps, index, onSelect }) => {
+  return (
+    <ol className="flex gap-2 mb-8">
+      {steps.map((step, i) => (
+        <li key={step.id} className="flex-1">
+          <button
+            type="button"
+            onClick={() => onSelect(i)}
+            disabled={i >= index}
+            aria-current={i === index ? 'step' : undefined}
+            className={`w-full flex items-center gap-2 pt-2 border-t-[3px] text-left text-sm transition-colors duration-200
+              ${i === index ? 'border-blue-500 font-semibold text-foreground' : ''}
+              ${i < index ? 'border-blue-300 text-muted-foreground cursor-pointer hover:text-foreground' : ''}
+              ${i > index ? 'border-gray-200 text-muted-foreground/70' : ''}`}
+          >
+            <span
+              className={`inline-flex items-center justify-center w-5 h-5 rounded-full text-xs
+                ${i <= index ? 'bg-blue-500 text-white' : 'bg-gray-200'}`}
+            >
+              {i + 1}
+            </span>
+            {stepTitle(step)}
+          </button>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+const COUNTRY_OPTIONS = [
+  { value: 'us', label: 'country.us', icon: '🇺🇸' },
+  { value: 'ca', label: 'country.ca', icon: '🇨🇦' },
+  { value: 'uk', label: 'country.uk', icon: '🇬🇧' },
+  { value: 'au', label: 'country.au', icon: '🇦🇺' },
+  { value: 'de', label: 'country.de', icon: '🇩🇪' },
+  { value: 'fr', label: 'country.fr', icon: '🇫🇷' },
+  { value: 'jp', label: 'country.jp', icon: '🇯🇵' },
+];
+
+// Address Component, shared by billing and shipping. `names` maps each part
+// of the address to its field name; `postalError`/`postalPending` carry the
+// async postal code check where there is one. It follows only its country,
+// which decides the state options and the postal code format.
+const AddressFields = React.memo(({ form, names, postalError, postalPending = false }) => {
+  useLocale();
+  const country = useFormState(form, ({ values }) => values[names.country]);
+  const postalFormat = postalCodeFormatFor(country);
+  const subdivisions = subdivisionInfoFor(country);
+  const renders = useRenderCount(`AddressFields ${names.country}`);
+  
+  return (
+    <div className="relative space-y-4">
+      <RenderBadge count={renders} />
+      <FormField
+        form={form}
+        name={names.address}
+        label={t('label.address')}
+        type="text"
+      />
+      
+      <FormField
+        form={form}
+        name={names.country}
+        as={StyledSelect}
+        placeholder={t('label.country')}
+        options={COUNTRY_OPTIONS}
+      />
+      
+      <div className="flex flex-wrap gap-4">
+        {subdivisions.options ? (
+          <FormField
+            form={form}
+            name={names.state}
+            as={StyledSelect}
+            placeholder={t(subdivisions.label)}
+            options={subdivisions.options}
+          />
+        ) : (
+          <FormField
+            form={form}
+            name={names.state}
+            label={t(subdivisions.label)}
+            type="text"
+          />
+        )}
+        <FormField
+          form={form}
+          name={names.city}
+          label={t('label.city')}
+          type="text"
+        />
+        <FormField
+          form={form}
+          name={names.postalCode}
+          label={t('label.postalCode')}
+          type="text"
+          asyncError={postalError}
+          pending={postalPending}
+          placeholder={postalFormat.example}
+          inputMode={postalFormat.inputMode}
+        />
+      </div>
+    </div>
+  );
+});
+
+// One note: its textarea, error and buttons to reorder or remove it
+const NoteItem = React.memo(({ form, path, index, count, onMove, onRemove }) => {
+  useLocale();
+  const field = useFormField(form, path);
+  const renders = useRenderCount(`NoteItem ${index}`);
+  const itemLabel = t('list.item', { label: t('label.notes'), index: index + 1 });
+  
+  return (
+    <li className="relative">
+      <RenderBadge count={renders} />
+      <div className="flex items-start gap-2">
+        <Textarea
+          id={field.id}
+          name={field.name}
+          value={field.value}
+          onChange={field.onChange}
+          onBlur={field.onBlur}
+          aria-label={itemLabel}
+          {...ariaFor(field.id, field.error)}
+          className="min-h-[72px] transition-all duration-200"
+        />
+        <div className="flex flex-col gap-1">
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onMove(index, index - 1)}
+            disabled={index === 0}
+            aria-label={t('list.moveUp', { item: itemLabel })}
+            className="h-7 px-2"
+          >
+            ↑
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onMove(index, index + 1)}
+            disabled={index === count - 1}
+            aria-label={t('list.moveDown', { item: itemLabel })}
+            className="h-7 px-2"
+          >
+            ↓
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onRemove(index)}
+            aria-label={t('list.remove', { item: itemLabel })}
+            className="h-7 px-2 text-muted-foreground hover:text-destructive"
+          >
+            ×
+          </Button>
+        </div>
+      </div>
+      <ErrorMessage id={errorIdFor(field.id)} error={field.error} show={field.showError} />
+    </li>
+  );
+});
+
+// Notes Component: one textarea per note, each with its own error and
+// buttons to reorder or remove it. Errors about the list as a whole (no
+// notes, too many) show under it and focus the add button. Typing into a
+// note re-renders only that note.
+const NotesField = React.memo(({ form, maxItems }) => {
+  useLocale();
+  const notes = useFieldArray(form, 'notes', { maxItems });
+  const list = notes.field;
+  const renders = useRenderCount('NotesField');
+  
+  return (
+    <fieldset className="relative mt-6">
+      <RenderBadge count={renders} />
+      <legend className="text-sm text-muted-foreground mb-2">{t('label.notes')}</legend>
+      {notes.items.length === 0 && (
+        <p className="text-xs text-muted-foreground mb-3">{t('list.empty')}</p>
+      )}
+      <ol className="space-y-3 mb-3">
+        {notes.items.map(({ key, index, path }) => (
+          <NoteItem
+            key={key}
+            form={form}
+            path={path}
+            index={index}
+            count={notes.items.length}
+            onMove={notes.move}
+            onRemove={notes.remove}
+          />
+        ))}
+      </ol>
+      <Button
+        type="button"
+        id={list.id}
+        variant="outline"
+        size="sm"
+        onClick={() => notes.append()}
+        disabled={!notes.canAdd}
+        {...ariaFor(list.id, list.error)}
+      >
+        + {t('list.add')}
+      </Button>
+      <ErrorMessage id={errorIdFor(list.id)} error={list.error} show={list.showError} />
+    </fieldset>
+  );
+});
+
+// Review Step Component
+const ReviewStep = ({ form }) => {
+  const values = useFormState(form, ({ fields, lists }) => ({ ...fields, ...lists }), shallowEqual);
+  
+  return (
+    <FormSection title={t('section.review')}>
+      <div className="space-y-6">
+        {reviewSections(values).map((section) => (
+          <div key={section.title}>
+            <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground mb-2">
+              {section.title}
+            </p>
+            <dl className="rounded-lg border divide-y">
+              {section.rows.map((row) => (
+                <div key={row.label} className="flex justify-between gap-4 px-4 py-2.5 text-sm">
+                  <dt className="text-muted-foreground">{row.label}</dt>
+                  <dd className="text-right">{row.value}</dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+        ))}
+      </div>
+    </FormSection>
+  );
+};
+
+const initialValues = {
+  email: '',
+  password: '',
+  confirmPassword: '',
+  notes: [],
+  phone: '',
+  method: '',
+  expiry: '',
+  cvv: '',
+  cardNumber: '',
+  paypalEmail: '',
+  billingAddress: '',
+  billingCountry: '',
+  billingState: '',
+  billingCity: '',
+  billingPostalCode: '',
+  shippingSameAsBilling: true,
+  address: '',
+  country: '',
+  state: '',
+  city: '',
+  postalCode: ''
+};
+
+// Selects are validated as soon as a choice is made; every other field
+// follows the form's mode
+const FIELD_MODES = {
+  method: { mode: 'onChange' },
+  billingCountry: { mode: 'onChange' },
+  country: { mode: 'onChange' },
+};
+
+// Drafts saved under another version are discarded; bump when the values change shape
+const DRAFT_VERSION = 4;
+const draftOptions = { version: DRAFT_VERSION, isSensitive: isSensitiveField };
+
+// Field names of the billing and shipping addresses
+const BILLING_FIELDS = {
+  address: 'billingAddress',
+  country: 'billingCountry',
+  state: 'billingState',
+  city: 'billingCity',
+  postalCode: 'billingPostalCode',
+};
+const SHIPPING_FIELDS = {
+  address: 'address',
+  country: 'country',
+  state: 'state',
+  city: 'city',
+  postalCode: 'postalCode',
+};
+
+// Only countries with a fixed list of states require one
+const requiresState = (country) => Boolean(subdivisionInfoFor(country).options);
+
+// Conditional fields, like Vaporize.Condition: the shipping fields are only
+// shown, and validated, when shipping to another address. Until then each
+// one is submitted as a copy of its billing counterpart.
+const shipsSeparately = (values) => !values.shippingSameAsBilling;
+const checkoutConditions = {
+  ...Object.fromEntries(
+    Object.entries(SHIPPING_FIELDS).map(([part, name]) => [
+      name,
+      { visibleWhen: shipsSeparately, whenHidden: (values) => values[BILLING_FIELDS[part]] },
+    ]),
+  ),
+  state: {
+    visibleWhen: shipsSeparately,
+    whenHidden: (values) => values.billingState,
+    requiredWhen: (values) => requiresState(values.country),
+  },
+  billingState: { requiredWhen: (values) => requiresState(values.billingCountry) },
+  // Card fields for card methods, the account email for PayPal
+  ...paymentConditions((values) => values.method),
+};
+
+// Shipping goes to the billing address unless a separate one is shown
+const destinationOf = ({ values, isVisible }) =>
+  isVisible('country') ? values.country : values.billingCountry;
+
+const orderSummaryFor = (view, items, currency) =>
+  computeOrderSummary(items, currency, destinationOf(view) || undefined);
+
+// Order Summary Component: the cart with shipping, tax and total. Shipping
+// and tax wait until there is a country to ship to; the card follows only
+// that country.
+const OrderSummaryCard = React.memo(({ form, items, currency, onCurrencyChange }) => {
+  useLocale();
+  const destination = useFormState(form, destinationOf);
+  const summary = computeOrderSummary(items, currency, destination || undefined);
+  const renders = useRenderCount('OrderSummaryCard');
+  const money = (amount) => formatMoney(amount, summary.currency);
+  
+  return (
+    <Card
+      className="relative w-full max-w-4xl mx-auto lg:mx-0 lg:w-80 lg:shrink-0 lg:sticky lg:top-8 shadow-lg border-0 order-first lg:order-none"
+      aria-labelledby="order-summary-title"
+      aria-live="polite"
+    >
+      <RenderBadge count={renders} />
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between gap-4 mb-4">
+          <h2 id="order-summary-title" className="text-lg font-semibold">
+            {t('summary.title')}
+          </h2>
+          <div className="w-24">
+            <StyledSelect
+              id="currency"
+              placeholder={t('summary.currency')}
+              value={summary.currency}
+              onChange={onCurrencyChange}
+              options={currencies.map((code) => ({ value: code, label: code.toUpperCase() }))}
+            />
+          </div>
+        </div>
+        
+        <ul className="divide-y border-y mb-4">
+          {summary.lines.map((line) => (
+            <li key={line.id} className="flex justify-between gap-3 py-3 text-sm">
+              <div>
+                <span className="block font-medium">{t(line.name)}</span>
+                <span className="text-xs text-muted-foreground">
+                  {t('summary.quantity', { quantity: line.quantity, price: money(line.unitPrice) })}
+                </span>
+              </div>
+              <span>{money(line.total)}</span>
+            </li>
+          ))}
+        </ul>
+        
+        <dl className="space-y-2 text-sm">
+          <div className="flex justify-between text-muted-foreground">
+            <dt>{t('summary.subtotal')}</dt>
+            <dd className="text-foreground">{money(summary.subtotal)}</dd>
+          </div>
+          {summary.shipping === undefined ? (
+            <p className="text-xs text-muted-foreground">{t('summary.pending')}</p>
+          ) : (
+            <>
+              <div className="flex justify-between text-muted-foreground">
+                <dt>{t('summary.shipping')}</dt>
+                <dd className="text-foreground">{money(summary.shipping)}</dd>
+              </div>
+              <div className="flex justify-between text-muted-foreground">
+                <dt>{t('summary.tax', { rate: formatRate(summary.taxRate) })}</dt>
+                <dd className="text-foreground">{money(summary.tax)}</dd>
+              </div>
+            </>
+          )}
+          <div className="flex justify-between pt-3 mt-2 border-t text-base font-semibold">
+            <dt>{t('summary.total')}</dt>
+            <dd>{money(summary.total)}</dd>
+          </div>
+        </dl>
+      </CardContent>
+    </Card>
+  );
+});
+
+const METHOD_OPTIONS = [
+  { value: 'credit', label: 'method.credit', icon: '💳', description: 'method.credit.description' },
+  { value: 'debit', label: 'method.debit', icon: '🏦', description: 'method.debit.description' },
+  { value: 'paypal', label: 'method.paypal', icon: '🅿️', description: 'method.paypal.description' },
+  { value: 'apple', label: 'method.apple', icon: '🍎', description: 'method.apple.description' },
+];
+
+// Props that depend on other fields, for FormField's `select`
+const selectStrengthEmail = ({ fields }) => ({ email: fields.email });
+const selectConfirmHint = ({ values }) => ({
+  hint:
+    values.confirmPassword && values.confirmPassword === values.password
+      ? t('password.match')
+      : undefined,
+});
+const selectPhonePlaceholder = ({ fields }) => ({
+  placeholder:
+    phoneMetadataFor(dependencyValue(checkoutValidations.phone, fields))?.example ?? '+31 6 12345678',
+});
+const selectCvvLength = ({ values }) => ({ maxLength: cvvLengthFor(values.cardNumber) });
+const selectCardBadge = ({ values }) => {
+  const brand = detectCardBrand(values.cardNumber);
+  return { badge: brand && cardBrands[brand].label };
+};
+
 // Main Form Component
-export default function AccountForm() {
-  const [formValues, setFormValues] = useState({
-    email: '',
-    password: '',
-    confirmPassword: '',
-    notes: '',
-    phone: '',
-    paymentMethod: '',
-    expiry: '',
-    cvv: '',
-    billingAddress: '',
-    cardNumber: '',
-    shippingSameAsBilling: true,
-    address: '',
-    country: '',
-    state: '',
-    city: '',
-    postalCode: ''
+// `wizard` shows one section per step, with a review step before submit;
+// `api` backs the async field checks and order submission, and defaults to
+// window.fetch; `items` is what is being ordered, the demo cart by default.
+// `validationMode` sets when a field is first validated, `revalidateMode`
+// when it is checked again after a submit, and `fieldModes` overrides both
+// per field. `analytics` (createFormAnalytics) gets the form's event stream.
+//
+// The form state lives in a store (useCheckoutFormStore) rather than here:
+// each field follows only its own value and error, and this component only
+// what it shows itself (which sections are visible, the payment method), so
+// a keystroke re-renders the one field it went to. Open the page with
+// `?renders` to see render counts on every field and section.
+export default function AccountForm({
+  wizard = false,
+  api,
+  items = demoCart,
+  validationMode = 'onTouched',
+  revalidateMode = 'onChange',
+  fieldModes = FIELD_MODES,
+  analytics,
+}) {
+  const form = useCheckoutFormStore({
+    initialValues,
+    conditions: checkoutConditions,
+    mode: validationMode,
+    revalidate: revalidateMode,
+    fieldModes,
   });
+  const renders = useRenderCount('AccountForm');
+  const tracking = useFormAnalytics(form, analytics);
+  
+  const wizardState = useWizard();
+  const { locale, setLocale } = useLocale();
+  const drafts = useDraft('checkout-draft:modern', form, draftOptions);
+  const asyncValidators = useMemo(() => createCheckoutValidators(api), [api]);
+  const asyncValidation = useAsyncValidation(asyncValidators);
+  const submitter = useMemo(() => createFetchSubmitter(api), [api]);
+  const submission = useSubmission(submitter);
+  const [currency, setCurrency] = useState('usd');
   
-  const [errors, setErrors] = useState({});
-  const [submitted, setSubmitted] = useState(false);
+  const showCard = useFormState(form, (view) => view.isVisible('cardNumber'));
+  const showPaypal = useFormState(form, (view) => view.isVisible('paypalEmail'));
+  const showShipping = useFormState(form, (view) => view.isVisible('address'));
+  const method = useFormState(form, ({ values }) => values.method);
+  const isSubmitting = useFormState(form, (view) => view.isSubmitting);
+  const sameAsBilling = useFormToggle(form, 'shippingSameAsBilling');
   
-  const handleChange = (e) => {
-    const { name, value } = e.target;
-    
-    // Apply formatting based on field name
-    let formattedValue = value;
-    if (formatters[name]) {
-      formattedValue = formatters[name](value);
+  // Async checks only run once a value passes the synchronous rules. They
+  // follow the store directly, so they re-render nothing until a result is in.
+  const checkAsync = (name) => {
+    const { fields } = form.view();
+    if (!(name in fields) || validateField(name, fields)) {
+      asyncValidation.clear(name);
+    } else {
+      asyncValidation.validate(name, fields);
     }
-    
-    setFormValues(prev => ({ ...prev, [name]: formattedValue }));
-    
-    if (submitted && errors[name]) {
-      setErrors(prev => ({ ...prev, [name]: undefined }));
+  };
+  
+  useEffect(
+    () => form.watch(({ fields }) => fields.email, () => checkAsync('email')),
+    [form, asyncValidators],
+  );
+  useEffect(
+    () =>
+      form.watch(
+        ({ fields }) => [fields.postalCode, fields.country],
+        () => checkAsync('postalCode'),
+        shallowEqual,
+      ),
+    [form, asyncValidators],
+  );
+  
+  // Wizard mode: each step is shown and validated on its own
+  const showStep = (id) => !wizard || wizardState.step.id === id;
+  
+  const validateStep = (step) =>
+    form.validatePaths(step.fields) &&
+    !step.fields.some((field) => asyncValidation.pending[field] || asyncValidation.errors[field]);
+  
+  // Submit waits for every async check, and is blocked by any that fail
+  const onSubmit = async (payload, submittedFields) => {
+    const asyncErrors = await asyncValidation.validateAll(submittedFields);
+    if (Object.keys(asyncErrors).length > 0) {
+      form.focusFirst(Object.keys(asyncErrors));
+      return;
+    }
+    const outcome = await submission.submit({
+      ...payload,
+      phone: toE164(submittedFields.phone, dependencyValue(checkoutValidations.phone, submittedFields)),
+      order: orderSummaryFor(form.view(), items, currency),
+    });
+    if (outcome.ok) {
+      tracking.complete();
+      drafts.clear();
+      return;
     }
+    // Field errors from the server show on their fields like any other
+    const serverErrors = mapServerErrors(outcome.fieldErrors);
+    form.setServerErrors(serverErrors);
+    if (Object.keys(serverErrors).length > 0) onInvalid(serverErrors);
   };
   
-  const handleSelectChange = (name, value) => {
-    setFormValues(prev => ({ ...prev, [name]: value }));
+  // A failed final submit jumps back to the first step with errors
+  const onInvalid = (invalid) => {
+    if (wizard) {
+      wizardState.goTo(Math.min(...Object.keys(invalid).map((field) => stepIndexOf(field))));
+    }
   };
   
+  const submitForm = form.handleSubmit(onSubmit, onInvalid);
+  
   const handleSubmit = (e) => {
-    e.preventDefault();
-    const validationErrors = validateForm(formValues);
-    setErrors(validationErrors);
-    setSubmitted(true);
-    
-    if (Object.keys(validationErrors).length === 0) {
-      console.log('Form submitted:', formValues);
+    if (wizard && !wizardState.isLast) {
+      e.preventDefault();
+      wizardState.next(validateStep);
+      return;
     }
+    submitForm(e);
   };
   
   return (
     <TooltipProvider>
-      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 p-4 md:p-8">
-        <Card className="max-w-4xl mx-auto shadow-lg border-0">
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 p-4 md:p-8 flex flex-col lg:flex-row lg:items-start lg:justify-center gap-6">
+        <Card className="relative w-full max-w-4xl mx-auto lg:mx-0 shadow-lg border-0">
+          <RenderBadge count={renders} />
           <CardContent className="p-6 md:p-10">
-            <form onSubmit={handleSubmit}>
-            {/* Account Section */}
-            <FormSection title="Account">
-              <div className="flex flex-wrap gap-4">
-                <FloatingInput
-                  label="Email"
-                  name="email"
-                  type="email"
-                  value={formValues.email}
-                  onChange={handleChange}
-                  error={errors.email}
-                  showError={submitted}
-                />
-                <FloatingInput
-                  label="Password"
-                  name="password"
-                  type="password"
-                  value={formValues.password}
-                  onChange={handleChange}
-                  error={errors.password}
-                  showError={submitted}
-                />
-                <FloatingInput
-                  label="Confirm password"
-                  name="confirmPassword"
-                  type="password"
-                  value={formValues.confirmPassword}
-                  onChange={handleChange}
-                  error={errors.confirmPassword}
-                  showError={submitted}
+            <form ref={tracking.ref} onSubmit={handleSubmit} lang={locale}>
+            <div className="flex justify-end mb-6">
+              <div className="w-48">
+                <StyledSelect
+                  id="locale"
+                  placeholder={t('form.language')}
+                  value={locale}
+                  onChange={setLocale}
+                  options={locales.map((code) => ({ value: code, label: localeNames[code] }))}
                 />
               </div>
-              
-              {/* Notes */}
-              <div className="mt-6">
-                <Label htmlFor="notes" className="text-sm text-muted-foreground mb-2 block">
-                  Notes
-                </Label>
-                <Textarea
-                  id="notes"
-                  name="notes"
-                  value={formValues.notes}
-                  onChange={handleChange}
-                  className="min-h-[100px] transition-all duration-200"
-                />
-                <ErrorMessage error={errors.notes} show={submitted} />
+            </div>
+            
+            {drafts.draft && (
+              <div
+                role="status"
+                className="flex items-center justify-between gap-4 mb-8 px-4 py-3 rounded-lg border border-blue-200 bg-blue-50 text-sm animate-in fade-in-0 duration-300"
+              >
+                <span>{t('draft.found', { age: draftAge(drafts.draft.savedAt) })}</span>
+                <div className="flex gap-2 shrink-0">
+                  <Button
+                    type="button"
+                    size="sm"
+                    onClick={() => form.setValues(mergeDraft(initialValues, drafts.restore()))}
+                  >
+                    {t('draft.restore')}
+                  </Button>
+                  <Button type="button" size="sm" variant="outline" onClick={drafts.discard}>
+                    {t('draft.discard')}
+                  </Button>
+                </div>
+              </div>
+            )}
+            
+            {submission.outcome && (
+              <div
+                role={submission.outcome.ok ? 'status' : 'alert'}
+                className={`mb-8 px-4 py-3 rounded-lg border text-sm animate-in fade-in-0 duration-300 ${
+                  submission.outcome.ok
+                    ? 'border-green-200 bg-green-50 text-green-800'
+                    : 'border-red-200 bg-red-50 text-red-800'
+                }`}
+              >
+                {submission.outcome.ok
+                  ? t('submission.placed', { orderId: submission.outcome.orderId })
+                  : submission.outcome.message}
               </div>
+            )}
+            
+            {wizard && (
+              <WizardProgress
+                steps={wizardState.steps}
+                index={wizardState.index}
+                onSelect={wizardState.goTo}
+              />
+            )}
+            
+            {/* Account Section */}
+            {showStep('account') && (
+              <FormSection title={t('section.account')}>
+                <div className="flex flex-wrap gap-4">
+                  <FormField
+                    form={form}
+                    name="email"
+                    label={t('label.email')}
+                    type="email"
+                    asyncError={asyncValidation.errors.email}
+                    pending={asyncValidation.pending.email}
+                  />
+                  <FormField
+                    form={form}
+                    name="password"
+                    as={PasswordField}
+                    label={t('label.password')}
+                    select={selectStrengthEmail}
+                    showStrength
+                  />
+                  <FormField
+                    form={form}
+                    name="confirmPassword"
+                    as={PasswordField}
+                    label={t('label.confirmPassword')}
+                    select={selectConfirmHint}
+                  />
+                </div>
               
-              {/* Contact Subsection */}
-              <FormSection title="Contact" nested>
-                <FloatingInput
-                  label="Phone"
-                  name="phone"
-                  type="text"
-                  value={formValues.phone}
-                  onChange={handleChange}
-                  error={errors.phone}
-                  showError={submitted}
-                  maxLength={14}
-                  inputMode="tel"
-                />
+                {/* Notes */}
+                <NotesField form={form} maxItems={checkoutValidations.notes.max_items} />
               </FormSection>
-            </FormSection>
+            )}
             
             {/* Payment Section */}
-            <FormSection title="Payment">
-              <StyledSelect
-                placeholder="Payment Method"
-                value={formValues.paymentMethod}
-                onChange={(value) => handleSelectChange('paymentMethod', value)}
-                options={[
-                  { value: 'credit', label: 'Credit Card', icon: '💳', description: 'Visa, Mastercard, Amex' },
-                  { value: 'debit', label: 'Debit Card', icon: '🏦', description: 'Direct from your bank' },
-                  { value: 'paypal', label: 'PayPal', icon: '🅿️', description: 'Pay with PayPal balance' },
-                  { value: 'apple', label: 'Apple Pay', icon: '🍎', description: 'Quick and secure' },
-                ]}
-              />
-              
-              <div className="flex flex-wrap gap-4 mt-4">
-                <FloatingInput
-                  label="Expiry"
-                  name="expiry"
-                  type="text"
-                  placeholder="MM/YY"
-                  value={formValues.expiry}
-                  onChange={handleChange}
-                  error={errors.expiry}
-                  showError={submitted}
-                  maxLength={5}
-                  inputMode="numeric"
-                />
-                <FloatingInput
-                  label="Cvv"
-                  name="cvv"
-                  type="text"
-                  placeholder="123"
-                  value={formValues.cvv}
-                  onChange={handleChange}
-                  error={errors.cvv}
-                  showError={submitted}
-                  maxLength={4}
-                  inputMode="numeric"
+            {showStep('payment') && (
+              <FormSection title={t('section.payment')}>
+                <FormField
+                  form={form}
+                  name="method"
+                  as={StyledSelect}
+                  placeholder={t('label.method')}
+                  options={METHOD_OPTIONS}
                 />
-                <FloatingInput
-                  label="Billing address"
-                  name="billingAddress"
-                  type="text"
-                  value={formValues.billingAddress}
-                  onChange={handleChange}
-                  error={errors.billingAddress}
-                  showError={submitted}
-                />
-                <FloatingInput
-                  label="Card number"
-                  name="cardNumber"
-                  type="text"
-                  maxLength={19}
-                  value={formValues.cardNumber}
-                  onChange={handleChange}
-                  error={errors.cardNumber}
-                  showError={submitted}
-                  inputMode="numeric"
-                />
-              </div>
-            </FormSection>
+              
+                {/* Fields of the chosen method */}
+                {showCard && (
+                  <div className="flex flex-wrap gap-4 mt-4">
+                    <FormField
+                      form={form}
+                      name="expiry"
+                      label={t('label.expiry')}
+                      type="text"
+                      placeholder="MM/YY"
+                      maxLength={7}
+                      inputMode="numeric"
+                    />
+                    <FormField
+                      form={form}
+                      name="cvv"
+                      label={t('label.cvv')}
+                      type="text"
+                      placeholder="123"
+                      select={selectCvvLength}
+                      inputMode="numeric"
+                    />
+                    <FormField
+                      form={form}
+                      name="cardNumber"
+                      label={t('label.cardNumber')}
+                      type="text"
+                      inputMode="numeric"
+                      select={selectCardBadge}
+                    />
+                  </div>
+                )}
+                {showPaypal && (
+                  <div className="mt-4">
+                    <FormField
+                      form={form}
+                      name="paypalEmail"
+                      label={t('label.paypalEmail')}
+                      type="email"
+                    />
+                  </div>
+                )}
+                {paymentKindOf(method) === 'wallet' && (
+                  <p
+                    role="status"
+                    className="mt-4 px-4 py-3 rounded-lg border border-dashed text-sm text-muted-foreground animate-in fade-in-0 duration-300"
+                  >
+                    {t('method.walletConfirm', { wallet: t(`method.${method}`) })}
+                  </p>
+                )}
+                
+                <FormSection title={t('section.billingAddress')} nested>
+                  <AddressFields form={form} names={BILLING_FIELDS} />
+                </FormSection>
+              </FormSection>
+            )}
             
-            {/* Shipping Details Section */}
-            <FormSection title="Shipping details">
-              <div className="flex items-center justify-between py-2">
-                <Label htmlFor="shippingSameAsBilling" className="text-sm cursor-pointer">
-                  Shipping same as billing
-                </Label>
-                <Switch
-                  id="shippingSameAsBilling"
-                  checked={formValues.shippingSameAsBilling}
-                  onCheckedChange={(checked) => 
-                    setFormValues(prev => ({ ...prev, shippingSameAsBilling: checked }))
-                  }
-                />
-              </div>
-            </FormSection>
+            {showStep('shipping') && (
+              <>
+                {/* Shipping Details Section */}
+                <FormSection title={t('section.shippingDetails')}>
+                  <div className="flex items-center justify-between py-2">
+                    <Label htmlFor="shippingSameAsBilling" className="text-sm cursor-pointer">
+                      {t('label.shippingSameAsBilling')}
+                    </Label>
+                    <Switch
+                      id={sameAsBilling.id}
+                      checked={sameAsBilling.checked}
+                      onCheckedChange={sameAsBilling.onChange}
+                    />
+                  </div>
+                </FormSection>
             
-            {/* Shipping Section */}
-            <FormSection title="Shipping">
-              <div className="space-y-4">
-                <FloatingInput
-                  label="Address"
-                  name="address"
-                  type="text"
-                  value={formValues.address}
-                  onChange={handleChange}
-                  error={errors.address}
-                  showError={submitted}
-                />
+                {/* Shipping Section */}
+                {showShipping && (
+                  <FormSection title={t('section.shipping')}>
+                    <AddressFields
+                      form={form}
+                      names={SHIPPING_FIELDS}
+                      postalError={asyncValidation.errors.postalCode}
+                      postalPending={asyncValidation.pending.postalCode}
+                    />
+                  </FormSection>
+                )}
                 
-                <StyledSelect
-                  placeholder="Country"
-                  value={formValues.country}
-                  onChange={(value) => handleSelectChange('country', value)}
-                  options={[
-                    { value: 'us', label: 'United States', icon: '🇺🇸' },
-                    { value: 'ca', label: 'Canada', icon: '🇨🇦' },
-                    { value: 'uk', label: 'United Kingdom', icon: '🇬🇧' },
-                    { value: 'au', label: 'Australia', icon: '🇦🇺' },
-                    { value: 'de', label: 'Germany', icon: '🇩🇪' },
-                    { value: 'fr', label: 'France', icon: '🇫🇷' },
-                    { value: 'jp', label: 'Japan', icon: '🇯🇵' },
-                  ]}
-                />
-                
-                <div className="flex flex-wrap gap-4">
-                  <FloatingInput
-                    label="State"
-                    name="state"
-                    type="text"
-                    value={formValues.state}
-                    onChange={handleChange}
-                    error={errors.state}
-                    showError={submitted}
-                  />
-                  <FloatingInput
-                    label="City"
-                    name="city"
-                    type="text"
-                    value={formValues.city}
-                    onChange={handleChange}
-                    error={errors.city}
-                    showError={submitted}
-                  />
-                  <FloatingInput
-                    label="Postal code"
-                    name="postalCode"
+                {/* Contact Section, after the countries the phone is checked against */}
+                <FormSection title={t('section.contact')}>
+                  <FormField
+                    form={form}
+                    name="phone"
+                    label={t('label.phone')}
                     type="text"
-                    value={formValues.postalCode}
-                    onChange={handleChange}
-                    error={errors.postalCode}
-                    showError={submitted}
-                    maxLength={10}
-                    inputMode="numeric"
+                    select={selectPhonePlaceholder}
+                    inputMode="tel"
                   />
-                </div>
-              </div>
-            </FormSection>
+                </FormSection>
+              </>
+            )}
             
-            {/* Submit Button */}
-            <Button 
-              type="submit" 
-              className="w-full h-12 mt-4 text-base font-medium transition-all duration-200 hover:scale-[1.01] active:scale-[0.99]"
-            >
-              Submit
-            </Button>
+            {wizard && showStep('review') && <ReviewStep form={form} />}
+            
+            {/* Navigation and Submit */}
+            <div className="flex gap-3 mt-4">
+              {wizard && !wizardState.isFirst && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={wizardState.back}
+                  className="h-12 px-6 text-base font-medium"
+                >
+                  {t('form.back')}
+                </Button>
+              )}
+              <Button 
+                type="submit" 
+                disabled={isSubmitting || asyncValidation.isPending}
+                className="flex-1 h-12 text-base font-medium transition-all duration-200 hover:scale-[1.01] active:scale-[0.99]"
+              >
+                {wizard && !wizardState.isLast ? t('form.next') : t('form.submit')}
+              </Button>
+            </div>
           </form>
         </CardContent>
       </Card>
+      
+      <OrderSummaryCard form={form} items={items} currency={currency} onCurrencyChange={setCurrency} />
     </div>
     </TooltipProvider>
   );
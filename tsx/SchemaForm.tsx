@@ -0,0 +1,540 @@
+// Schema-driven form renderer, the React counterpart of Vaporize.Form: hand it
+// a zod object schema (or the equivalent metadata) and it generates the whole
+// form. Nested objects become sections, enums selects or radios, booleans
+// toggles and string arrays lists of inputs that can be added to, removed
+// from and reordered. A discriminated union becomes a section whose fields
+// follow the chosen branch.
+//
+// Field rules come from the shared rule table, matched by leaf name the way
+// `__validations` is (cardnumber, cardNumber and card_number all match), and
+// the `components` map replaces individual fields the way `__components` does.
+// The markup uses the classic form's class names.
+
+import { useMemo, type ReactNode } from 'react';
+import { z } from 'zod';
+import {
+  checkoutValidations,
+  normalizeFieldName,
+  validateForm,
+  type FieldErrors,
+  type ValidationRules,
+} from './checkoutValidation';
+import { mergeDraft } from './checkoutDrafts';
+import { conditionalRules, type Conditions } from './checkoutConditions';
+import { useCheckoutForm, type CheckoutForm, type FieldBinding } from './useCheckoutForm';
+import { useFieldArray } from './useFieldArray';
+import { getPath } from './valuePaths';
+import { ariaFor, errorIdFor } from './fieldAria';
+import { checkoutErrorMap, t } from './i18n';
+
+export type FieldKind = 'text' | 'select' | 'radio' | 'toggle' | 'list';
+
+// Shown only while the discriminator at `path` holds one of `values`
+export interface BranchCondition {
+  path: string;
+  values: string[];
+}
+
+export interface FieldOption {
+  value: string;
+  label: string;
+}
+
+export interface FieldNode {
+  kind: FieldKind;
+  // Leaf name, e.g. "cardnumber"
+  name: string;
+  // Value path, e.g. "payment.cardnumber"
+  path: string;
+  label: string;
+  options?: FieldOption[];
+  // Set on fields that only some branches of a discriminated union have
+  shownFor?: BranchCondition;
+}
+
+export interface SectionNode {
+  kind: 'section';
+  name: string;
+  path: string;
+  label: string;
+  children: FormNode[];
+  shownFor?: BranchCondition;
+}
+
+export type FormNode = FieldNode | SectionNode;
+
+type FormValues = Record<string, unknown>;
+
+export interface SchemaFieldProps {
+  node: FieldNode;
+  field: FieldBinding;
+  form: CheckoutForm<FormValues>;
+}
+
+// Leaf name -> custom field, like `__components`
+export type SchemaComponents = Record<string, (props: SchemaFieldProps) => ReactNode>;
+
+// "billing_address", "billingAddress" -> "Billing address"
+export const humanize = (name: string): string => {
+  const words = name
+    .replace(/([a-z\d])([A-Z])/g, '$1 $2')
+    .replace(/[_-]+/g, ' ')
+    .trim()
+    .toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const unwrap = (schema: z.ZodTypeAny): z.ZodTypeAny => {
+  if (schema instanceof z.ZodEffects) return unwrap(schema.innerType());
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return unwrap(schema.unwrap());
+  }
+  if (schema instanceof z.ZodDefault) return unwrap(schema.removeDefault());
+  return schema;
+};
+
+// Metadata for a zod object schema. `.describe()` sets a label, either text
+// or a message key translated when rendered; `widgets` renders the named
+// enums as radios instead of selects.
+export const describeSchema = (
+  schema: z.ZodTypeAny,
+  widgets: Record<string, 'select' | 'radio'> = {},
+  prefix = '',
+): FormNode[] => {
+  const object = unwrap(schema);
+  if (!(object instanceof z.ZodObject)) {
+    throw new Error(`Expected an object schema at "${prefix || 'root'}"`);
+  }
+
+  return Object.entries(object.shape as z.ZodRawShape).map(([name, child]): FormNode => {
+    const path = prefix ? `${prefix}.${name}` : name;
+    const label = child.description ?? humanize(name);
+    const inner = unwrap(child);
+
+    if (inner instanceof z.ZodObject) {
+      return { kind: 'section', name, path, label, children: describeSchema(inner, widgets, path) };
+    }
+    if (inner instanceof z.ZodDiscriminatedUnion) {
+      return { kind: 'section', name, path, label, children: describeUnion(inner, widgets, path) };
+    }
+    if (inner instanceof z.ZodEnum) {
+      const options = (inner.options as string[]).map((value) => ({ value, label: humanize(value) }));
+      return { kind: widgets[name] ?? 'select', name, path, label, options };
+    }
+    if (inner instanceof z.ZodBoolean) return { kind: 'toggle', name, path, label };
+    if (inner instanceof z.ZodArray && unwrap(inner.element) instanceof z.ZodString) {
+      return { kind: 'list', name, path, label };
+    }
+    return { kind: 'text', name, path, label };
+  });
+};
+
+// The discriminator comes first, as a select or radios with one option per
+// branch (labelled by the first branch's `.describe()`), followed by the
+// fields of every branch. Fields all branches share are always shown; the
+// others only while a branch that has them is chosen.
+const describeUnion = (
+  union: z.ZodDiscriminatedUnion<string, z.ZodObject<z.ZodRawShape>[]>,
+  widgets: Record<string, 'select' | 'radio'>,
+  prefix: string,
+): FormNode[] => {
+  const key = union.discriminator;
+  const path = `${prefix}.${key}`;
+  const branches = union.options.map((branch) => {
+    const { [key]: discriminator, ...shape } = branch.shape;
+    if (!(discriminator instanceof z.ZodLiteral)) {
+      throw new Error(`Expected a literal discriminator at "${path}"`);
+    }
+    return { value: String(discriminator.value), label: discriminator.description, shape };
+  });
+
+  // Fields new to a branch go just before the next field it shares with an
+  // earlier branch, so every branch keeps its own order
+  const fields: { node: FormNode; values: string[] }[] = [];
+  for (const branch of branches) {
+    let added: typeof fields = [];
+    for (const node of describeSchema(z.object(branch.shape), widgets, prefix)) {
+      const index = fields.findIndex((entry) => entry.node.name === node.name);
+      if (index === -1) {
+        added.push({ node, values: [branch.value] });
+        continue;
+      }
+      fields[index].values.push(branch.value);
+      fields.splice(index, 0, ...added);
+      added = [];
+    }
+    fields.push(...added);
+  }
+
+  const selector: FieldNode = {
+    kind: widgets[key] ?? 'select',
+    name: key,
+    path,
+    label: branches[0]?.label ?? humanize(key),
+    options: branches.map(({ value }) => ({ value, label: humanize(value) })),
+  };
+  return [
+    selector,
+    ...fields.map(({ node, values }) =>
+      values.length === branches.length ? node : { ...node, shownFor: { path, values } },
+    ),
+  ];
+};
+
+const visibleFor =
+  ({ path, values }: BranchCondition) =>
+  (formValues: FormValues) =>
+    values.includes(String(getPath(formValues, path)));
+
+// Conditions for every node with a `shownFor`, in the form the hook takes
+const branchConditions = (nodes: FormNode[]): Conditions<FormValues> =>
+  Object.fromEntries(
+    nodes.flatMap((node) => [
+      ...(node.shownFor
+        ? [[node.path, { visibleWhen: visibleFor(node.shownFor) }] as const]
+        : []),
+      ...(node.kind === 'section' ? Object.entries(branchConditions(node.children)) : []),
+    ]),
+  );
+
+const emptyValue = (node: FieldNode): unknown =>
+  node.kind === 'toggle' ? false : node.kind === 'list' ? [] : '';
+
+export const defaultsFor = (nodes: FormNode[]): FormValues =>
+  Object.fromEntries(
+    nodes.map((node) => [
+      node.name,
+      node.kind === 'section' ? defaultsFor(node.children) : emptyValue(node),
+    ]),
+  );
+
+const leaves = (nodes: FormNode[]): FieldNode[] =>
+  nodes.flatMap((node) => (node.kind === 'section' ? leaves(node.children) : [node]));
+
+// Rule table field name -> value path, for every leaf that has rules
+const rulePaths = (nodes: FormNode[], rules: ValidationRules): Record<string, string> => {
+  const byName = new Map(Object.keys(rules).map((field) => [normalizeFieldName(field), field]));
+  const paths: Record<string, string> = {};
+  for (const node of leaves(nodes)) {
+    const field = byName.get(normalizeFieldName(node.name));
+    if (field) paths[field] = node.path;
+  }
+  return paths;
+};
+
+// zod issues keyed by value path; the first issue per path wins
+export const schemaErrors = (schema: z.ZodTypeAny, values: unknown): FieldErrors => {
+  const result = schema.safeParse(values, { errorMap: checkoutErrorMap });
+  const errors: FieldErrors = {};
+  if (!result.success) {
+    for (const issue of result.error.issues) {
+      errors[issue.path.join('.')] ??= issue.message;
+    }
+  }
+  return errors;
+};
+
+const inputTypes: Record<string, string> = {
+  email: 'email',
+  password: 'password',
+  telephone: 'tel',
+};
+
+const numericTypes = ['credit_card', 'expiry', 'cvv'];
+
+const FieldError = ({ field }: { field: Pick<FieldBinding, 'id' | 'error'> }) =>
+  field.error ? (
+    <div className="error-message" id={errorIdFor(field.id)}>
+      {field.error}
+    </div>
+  ) : null;
+
+export interface ListFieldProps<T extends object> {
+  form: CheckoutForm<T>;
+  path: string;
+  // Message key
+  label: string;
+  // The rule's `max_items`
+  maxItems?: number;
+}
+
+// A list field with one input per item, each with its own error, and buttons
+// to add, remove and reorder items. List errors (too few or too many items)
+// show under the list and focus its add button.
+export const ListField = <T extends object>({ form, path, label, maxItems }: ListFieldProps<T>) => {
+  const list = useFieldArray(form.store, path, { maxItems });
+  const items = list.items.map((item) => ({ ...item, field: form.field(item.path) }));
+  const itemLabel = (index: number) => t('list.item', { label: t(label), index: index + 1 });
+
+  return (
+    <fieldset className={`form-field field-list ${list.field.error ? 'has-error' : ''}`}>
+      <legend className="textarea-label">{t(label)}</legend>
+      {items.length === 0 && <p className="field-hint">{t('list.empty')}</p>}
+      <ol className="field-list-items">
+        {items.map(({ key, index, field }) => (
+          <li key={key} className={`field-list-item ${field.error ? 'has-error' : ''}`}>
+            <div className="field-list-row">
+              <div className="input-wrapper">
+                <input
+                  id={field.id}
+                  name={field.name}
+                  type="text"
+                  placeholder=" "
+                  value={field.value}
+                  onChange={field.onChange}
+                  onBlur={field.onBlur}
+                  {...ariaFor(field.id, field.error)}
+                />
+                <label htmlFor={field.id}>{itemLabel(index)}</label>
+              </div>
+              <div className="field-list-actions">
+                <button
+                  type="button"
+                  onClick={() => list.move(index, index - 1)}
+                  disabled={index === 0}
+                  aria-label={t('list.moveUp', { item: itemLabel(index) })}
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  onClick={() => list.move(index, index + 1)}
+                  disabled={index === items.length - 1}
+                  aria-label={t('list.moveDown', { item: itemLabel(index) })}
+                >
+                  ↓
+                </button>
+                <button
+                  type="button"
+                  onClick={() => list.remove(index)}
+                  aria-label={t('list.remove', { item: itemLabel(index) })}
+                >
+                  ×
+                </button>
+              </div>
+            </div>
+            <FieldError field={field} />
+          </li>
+        ))}
+      </ol>
+      <button
+        type="button"
+        id={list.field.id}
+        className="field-list-add"
+        onClick={() => list.append()}
+        disabled={!list.canAdd}
+        {...ariaFor(list.field.id, list.field.error)}
+      >
+        + {t('list.add')}
+      </button>
+      <FieldError field={list.field} />
+    </fieldset>
+  );
+};
+
+interface RenderContext {
+  form: CheckoutForm<FormValues>;
+  rules: ValidationRules;
+  ruleOf: Record<string, string>;
+  components: SchemaComponents;
+}
+
+const renderField = (node: FieldNode, { form, rules, ruleOf, components }: RenderContext) => {
+  const field = form.field(node.path);
+  const custom = components[node.name];
+  if (custom) return <div key={node.path}>{custom({ node, field, form })}</div>;
+
+  const fieldType = rules[ruleOf[node.path]]?.field_type ?? 'string';
+  const errorClass = `form-field ${field.error ? 'has-error' : ''}`;
+
+  switch (node.kind) {
+    case 'select':
+      return (
+        <div key={node.path} className={errorClass}>
+          <div className="select-wrapper">
+            <select
+              id={field.id}
+              name={field.name}
+              value={field.value}
+              onChange={field.onChange}
+              onBlur={field.onBlur}
+              {...ariaFor(field.id, field.error)}
+            >
+              <option value="">{t(node.label)}</option>
+              {node.options?.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {t(option.label)}
+                </option>
+              ))}
+            </select>
+            <label htmlFor={field.id}>{t(node.label)}</label>
+          </div>
+          <FieldError field={field} />
+        </div>
+      );
+
+    case 'radio':
+      return (
+        <fieldset
+          key={node.path}
+          className={`${errorClass} radio-group`}
+          {...ariaFor(field.id, field.error)}
+        >
+          <legend>{t(node.label)}</legend>
+          {node.options?.map((option, index) => (
+            <label key={option.value} className="radio-option">
+              <input
+                // The first option is where focus goes when the group is invalid
+                id={index === 0 ? field.id : undefined}
+                type="radio"
+                name={field.name}
+                value={option.value}
+                checked={field.value === option.value}
+                onChange={field.onChange}
+                onBlur={field.onBlur}
+              />
+              {t(option.label)}
+            </label>
+          ))}
+          <FieldError field={field} />
+        </fieldset>
+      );
+
+    case 'toggle': {
+      const toggle = form.toggle(node.path);
+      return (
+        <div key={node.path} className="toggle-row">
+          <span className="toggle-label" id={`${toggle.id}-label`}>
+            {t(node.label)}
+          </span>
+          <button
+            type="button"
+            role="switch"
+            aria-checked={toggle.checked}
+            aria-labelledby={`${toggle.id}-label`}
+            onClick={() => toggle.onChange(!toggle.checked)}
+            className={`toggle-switch ${toggle.checked ? 'toggle-on' : 'toggle-off'}`}
+          >
+            <span className="toggle-thumb" />
+          </button>
+        </div>
+      );
+    }
+
+    case 'list':
+      return (
+        <ListField
+          key={node.path}
+          form={form}
+          path={node.path}
+          label={node.label}
+          maxItems={rules[ruleOf[node.path]]?.max_items}
+        />
+      );
+
+    default:
+      return (
+        <div key={node.path} className={errorClass}>
+          <div className="input-wrapper">
+            <input
+              id={field.id}
+              name={field.name}
+              type={inputTypes[fieldType] ?? 'text'}
+              inputMode={numericTypes.includes(fieldType) ? 'numeric' : undefined}
+              placeholder=" "
+              value={field.value}
+              onChange={field.onChange}
+              onBlur={field.onBlur}
+              {...ariaFor(field.id, field.error)}
+            />
+            <label htmlFor={field.id}>{t(node.label)}</label>
+          </div>
+          <FieldError field={field} />
+        </div>
+      );
+  }
+};
+
+const renderNodes = (nodes: FormNode[], context: RenderContext, depth = 0): ReactNode[] =>
+  nodes
+    .filter((node) => context.form.isVisible(node.path))
+    .map((node) => {
+      if (node.kind !== 'section') return renderField(node, context);
+      const Heading = depth === 0 ? 'h2' : 'h3';
+      return (
+        <div key={node.path} className={depth === 0 ? 'form-section' : 'form-subsection'}>
+          <Heading className="section-header">{t(node.label)}</Heading>
+          {renderNodes(node.children, context, depth + 1)}
+        </div>
+      );
+    });
+
+export interface SchemaFormProps<T extends FormValues> {
+  // A zod object schema, or metadata from describeSchema() or written by hand
+  schema: z.ZodTypeAny | FormNode[];
+  // Merged over the empty values the schema implies, like `.default_value`
+  defaultValues?: Partial<T>;
+  rules?: ValidationRules;
+  components?: SchemaComponents;
+  widgets?: Record<string, 'select' | 'radio'>;
+  // Conditional fields and sections, like Vaporize.Condition
+  conditions?: Conditions<T>;
+  onSubmit: (values: T) => void | Promise<void>;
+  submitLabel?: string;
+  className?: string;
+}
+
+export function SchemaForm<T extends FormValues>({
+  schema,
+  defaultValues,
+  rules = checkoutValidations,
+  components = {},
+  widgets = {},
+  conditions = {},
+  onSubmit,
+  submitLabel = t('form.submit'),
+  className,
+}: SchemaFormProps<T>) {
+  const nodes = useMemo(
+    () => (Array.isArray(schema) ? schema : describeSchema(schema, widgets)),
+    [schema],
+  );
+  const paths = useMemo(() => rulePaths(nodes, rules), [nodes, rules]);
+  const ruleOf = useMemo(
+    () => Object.fromEntries(Object.entries(paths).map(([field, path]) => [path, field])),
+    [paths],
+  );
+
+  // Union branches first, so explicit conditions win on the same path
+  const formConditions = { ...branchConditions(nodes), ...(conditions as Conditions<FormValues>) };
+  const form = useCheckoutForm<FormValues>({
+    initialValues: mergeDraft(defaultsFor(nodes), defaultValues),
+    paths,
+    rules,
+    // Rule table errors for every matched leaf, plus the schema's own issues
+    // where the rule table has none, as in validateCheckout (checkoutSchema.ts)
+    validate: (values, fields) => ({
+      ...(Array.isArray(schema) ? {} : schemaErrors(schema, values)),
+      ...Object.fromEntries(
+        Object.entries(validateForm(fields, conditionalRules(rules, formConditions, values, paths))).map(
+          ([field, message]) => [paths[field], message],
+        ),
+      ),
+    }),
+    conditions: formConditions,
+  });
+
+  return (
+    <form
+      className={className}
+      onSubmit={form.handleSubmit((values) => onSubmit(values as T))}
+      noValidate
+    >
+      {renderNodes(nodes, { form, rules, ruleOf, components })}
+      <button type="submit" className="submit-btn" disabled={form.isSubmitting}>
+        {form.isSubmitting && <span className="spinner" />}
+        {submitLabel}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,182 @@
+// Async field validators ("email already registered", "postal code exists").
+// Each field's check is debounced, and a newer check aborts the one it
+// supersedes so a slow stale response can never overwrite a fresh one.
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  checkoutValidations,
+  dependencyValue,
+  type FieldErrors,
+  type FieldValues,
+  type ValidationRules,
+} from './checkoutValidation';
+import { t, useLocale } from './i18n';
+
+// Resolves with an error (a message key or literal text), or undefined
+export type AsyncValidator = (
+  value: string,
+  values: FieldValues,
+  signal: AbortSignal,
+) => Promise<string | undefined>;
+
+export type AsyncValidators = Record<string, AsyncValidator>;
+
+// Anything shaped like window.fetch, e.g. the local mock in mockCheckoutApi.ts
+export type Fetcher = (input: string, init?: RequestInit) => Promise<Response>;
+
+const DEFAULT_DELAY = 400;
+
+export const createCheckoutValidators = (
+  fetcher: Fetcher = (input, init) => fetch(input, init),
+): AsyncValidators => ({
+  email: async (value, _values, signal) => {
+    const response = await fetcher(
+      `/api/checkout/email-available?email=${encodeURIComponent(value)}`,
+      { signal },
+    );
+    if (!response.ok) throw new Error(`Email check failed with ${response.status}`);
+    const { available } = await response.json();
+    return available ? undefined : 'validation.emailTaken';
+  },
+  postalCode: async (value, values, signal) => {
+    const query = `country=${encodeURIComponent(values.country ?? '')}&code=${encodeURIComponent(value)}`;
+    const response = await fetcher(`/api/checkout/postal-code?${query}`, { signal });
+    if (!response.ok) throw new Error(`Postal code check failed with ${response.status}`);
+    const { exists } = await response.json();
+    return exists ? undefined : 'validation.postalCodeUnknown';
+  },
+});
+
+interface SettledCheck {
+  value: string;
+  dependency: string;
+  error?: string;
+}
+
+// Callers run the synchronous rules first and only hand over values that
+// pass them; `clear` drops a field's async state when its value turns invalid.
+// `rules` tells which value each check depends on.
+export const useAsyncValidation = (
+  validators: AsyncValidators,
+  delay = DEFAULT_DELAY,
+  rules: ValidationRules = checkoutValidations,
+) => {
+  const [pending, setPending] = useState<Record<string, boolean>>({});
+  const [errors, setErrors] = useState<FieldErrors>({});
+  const timers = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+  const controllers = useRef<Record<string, AbortController>>({});
+  // Last settled result per field, so an unchanged value is not re-checked
+  const settled = useRef<Record<string, SettledCheck>>({});
+
+  // Unchanged state is left as it is, so a keystroke that keeps a field
+  // pending does not re-render the form
+  const setFieldPending = (name: string, value: boolean) =>
+    setPending((prev) => (Boolean(prev[name]) === value ? prev : { ...prev, [name]: value }));
+
+  const setFieldError = (name: string, error?: string) =>
+    setErrors((prev) => {
+      if (prev[name] === error) return prev;
+      const { [name]: _removed, ...rest } = prev;
+      return error ? { ...rest, [name]: error } : rest;
+    });
+
+  const cancel = (name: string) => {
+    clearTimeout(timers.current[name]);
+    delete timers.current[name];
+    controllers.current[name]?.abort();
+    delete controllers.current[name];
+  };
+
+  // A check also depends on its rule's `depends_on` value (the postal code on
+  // the country), so the cache key covers both
+  const dependencyOf = (name: string, values: FieldValues) =>
+    (rules[name] && dependencyValue(rules[name], values)) ?? '';
+
+  const run = async (name: string, values: FieldValues): Promise<string | undefined> => {
+    const value = values[name] ?? '';
+    const dependency = dependencyOf(name, values);
+    const previous = settled.current[name];
+    if (previous && previous.value === value && previous.dependency === dependency) {
+      setFieldPending(name, false);
+      return previous.error;
+    }
+
+    const controller = new AbortController();
+    controllers.current[name] = controller;
+    setFieldPending(name, true);
+    try {
+      const error = await validators[name](value, values, controller.signal);
+      if (controller.signal.aborted) return undefined;
+      settled.current[name] = { value, dependency, error };
+      setFieldError(name, error);
+      return error;
+    } catch {
+      // A failed or aborted request never blocks the user; the server
+      // re-checks everything on submit anyway
+      return undefined;
+    } finally {
+      if (controllers.current[name] === controller) {
+        delete controllers.current[name];
+        setFieldPending(name, false);
+      }
+    }
+  };
+
+  // Debounced check, e.g. on every keystroke. The field reports pending from
+  // the first keystroke so submit stays blocked through the debounce window.
+  const validate = (name: string, values: FieldValues) => {
+    if (!validators[name]) return;
+    cancel(name);
+    setFieldPending(name, true);
+    timers.current[name] = setTimeout(() => {
+      delete timers.current[name];
+      run(name, values);
+    }, delay);
+  };
+
+  const clear = (name: string) => {
+    cancel(name);
+    setFieldPending(name, false);
+    setFieldError(name, undefined);
+  };
+
+  // Runs every check immediately, e.g. on submit, and resolves with the errors
+  const validateAll = async (values: FieldValues): Promise<FieldErrors> => {
+    const names = Object.keys(validators).filter((name) => name in values);
+    const results = await Promise.all(
+      names.map((name) => {
+        cancel(name);
+        return run(name, values);
+      }),
+    );
+    const found: FieldErrors = {};
+    names.forEach((name, i) => {
+      const error = results[i];
+      if (error) found[name] = error;
+    });
+    return translate(found);
+  };
+
+  // Errors are kept as returned and translated on the way out, so a locale
+  // switch applies to settled checks too
+  const { locale } = useLocale();
+  const translate = (found: FieldErrors): FieldErrors =>
+    Object.fromEntries(Object.entries(found).map(([name, error]) => [name, t(error, {}, locale)]));
+
+  useEffect(
+    () => () => {
+      Object.keys(timers.current).forEach((name) => clearTimeout(timers.current[name]));
+      Object.values(controllers.current).forEach((controller) => controller.abort());
+    },
+    [],
+  );
+
+  return {
+    pending,
+    errors: translate(errors),
+    isPending: Object.values(pending).some(Boolean),
+    validate,
+    validateAll,
+    clear,
+  };
+};
@@ -0,0 +1,180 @@
+// Card brand detection from IIN (issuer identification number) ranges, with
+// each brand's allowed lengths, CVV length and digit grouping.
+
+import { t } from './i18n';
+import { maskValue } from './inputMask';
+
+export type CardBrand =
+  | 'visa'
+  | 'mastercard'
+  | 'amex'
+  | 'discover'
+  | 'jcb'
+  | 'diners'
+  | 'unionpay'
+  | 'maestro';
+
+export interface CardBrandInfo {
+  label: string;
+  // Inclusive IIN prefix ranges; a single prefix is written as [n, n]
+  ranges: [number, number][];
+  lengths: number[];
+  cvvLength: number;
+  // Digit offsets after which a space is inserted
+  gaps: number[];
+}
+
+// Order matters: the first brand whose range fully matches wins
+export const cardBrands: Record<CardBrand, CardBrandInfo> = {
+  visa: { label: 'Visa', ranges: [[4, 4]], lengths: [13, 16, 19], cvvLength: 3, gaps: [4, 8, 12, 16] },
+  mastercard: {
+    label: 'Mastercard',
+    ranges: [[51, 55], [2221, 2720]],
+    lengths: [16],
+    cvvLength: 3,
+    gaps: [4, 8, 12],
+  },
+  amex: { label: 'Amex', ranges: [[34, 34], [37, 37]], lengths: [15], cvvLength: 4, gaps: [4, 10] },
+  discover: {
+    label: 'Discover',
+    ranges: [[6011, 6011], [644, 649], [65, 65]],
+    lengths: [16, 17, 18, 19],
+    cvvLength: 3,
+    gaps: [4, 8, 12, 16],
+  },
+  jcb: { label: 'JCB', ranges: [[3528, 3589]], lengths: [16, 17, 18, 19], cvvLength: 3, gaps: [4, 8, 12, 16] },
+  diners: {
+    label: 'Diners Club',
+    ranges: [[300, 305], [3095, 3095], [36, 36], [38, 39]],
+    lengths: [14, 15, 16, 17, 18, 19],
+    cvvLength: 3,
+    gaps: [4, 10],
+  },
+  unionpay: {
+    label: 'UnionPay',
+    ranges: [[62, 62], [81, 81]],
+    lengths: [14, 15, 16, 17, 18, 19],
+    cvvLength: 3,
+    gaps: [4, 8, 12, 16],
+  },
+  maestro: {
+    label: 'Maestro',
+    ranges: [[5018, 5018], [5020, 5020], [5038, 5038], [5893, 5893], [6304, 6304], [6759, 6759], [6761, 6763]],
+    lengths: [12, 13, 14, 15, 16, 17, 18, 19],
+    cvvLength: 3,
+    gaps: [4, 8, 12, 16],
+  },
+};
+
+// Luhn checksum over a string of digits
+export const luhnChecksum = (digits: string): boolean => {
+  let sum = 0;
+  let isEven = false;
+  for (let i = digits.length - 1; i >= 0; i--) {
+    let digit = parseInt(digits[i], 10);
+    if (isEven) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+    isEven = !isEven;
+  }
+  return sum % 10 === 0;
+};
+
+// Luhn algorithm for credit card validation (ISO/IEC 7812 allows 13-19 digits)
+export const luhnCheck = (cardNumber: string): boolean => {
+  const digits = cardNumber.replace(/\s/g, '');
+  return /^\d{13,19}$/.test(digits) && luhnChecksum(digits);
+};
+
+const DEFAULT_GAPS = [4, 8, 12, 16];
+const MAX_LENGTH = 19;
+
+// 'full' when the digits cover the whole prefix and fall in range, 'partial'
+// when the digits typed so far could still grow into the range
+const matchRange = (digits: string, [low, high]: [number, number]): 'full' | 'partial' | null => {
+  const size = String(low).length;
+  const prefix = digits.slice(0, size);
+  if (prefix.length === size) {
+    const n = Number(prefix);
+    return n >= low && n <= high ? 'full' : null;
+  }
+  const n = Number(prefix);
+  const lowPrefix = Number(String(low).slice(0, prefix.length));
+  const highPrefix = Number(String(high).slice(0, prefix.length));
+  return n >= lowPrefix && n <= highPrefix ? 'partial' : null;
+};
+
+// Detects the brand as the user types. Returns undefined while the prefix is
+// still ambiguous (e.g. a lone "3" could be Amex, JCB or Diners).
+export const detectCardBrand = (value: string): CardBrand | undefined => {
+  const digits = value.replace(/\D/g, '');
+  if (!digits) return undefined;
+
+  const partial: CardBrand[] = [];
+  for (const brand of Object.keys(cardBrands) as CardBrand[]) {
+    const matches = cardBrands[brand].ranges.map((range) => matchRange(digits, range));
+    if (matches.includes('full')) return brand;
+    if (matches.includes('partial')) partial.push(brand);
+  }
+  return partial.length === 1 ? partial[0] : undefined;
+};
+
+// Mask for the detected brand: digits grouped as the brand prints them (Amex
+// 4-6-5, everything else in fours), as many as its longest allowed length
+export const cardNumberMask = (value: string): string => {
+  const brand = detectCardBrand(value);
+  const info = brand ? cardBrands[brand] : undefined;
+  const maxLength = info ? Math.max(...info.lengths) : MAX_LENGTH;
+  const gaps = info ? info.gaps : DEFAULT_GAPS;
+
+  let mask = '';
+  for (let i = 0; i < maxLength; i++) {
+    if (gaps.includes(i)) mask += ' ';
+    mask += '#';
+  }
+  return mask;
+};
+
+export const formatCardNumber = (value: string): string => maskValue(value, cardNumberMask(value));
+
+// Longest CVV the card accepts; 4 until the brand is known
+export const cvvLengthFor = (cardNumber: string): number => {
+  const brand = detectCardBrand(cardNumber);
+  return brand ? cardBrands[brand].cvvLength : 4;
+};
+
+// "16", "14-19" or "13, 16 or 19"
+const describeLengths = (lengths: number[]): string => {
+  const first = lengths[0];
+  const last = lengths[lengths.length - 1];
+  if (lengths.length === 1) return String(first);
+  if (last - first === lengths.length - 1) return `${first}-${last}`;
+  return `${lengths.slice(0, -1).join(', ')} ${t('validation.or')} ${last}`;
+};
+
+// Brand-specific length check plus Luhn; unknown brands fall back to 13-19 digits
+export const checkCardNumber = (value: string): string | undefined => {
+  const digits = value.replace(/\s/g, '');
+  const brand = detectCardBrand(digits);
+  if (!brand || !/^\d+$/.test(digits)) {
+    return luhnCheck(digits) ? undefined : t('validation.cardNumber');
+  }
+
+  const { label, lengths } = cardBrands[brand];
+  if (!lengths.includes(digits.length)) {
+    return t('validation.cardLength', { brand: label, lengths: describeLengths(lengths) });
+  }
+  return luhnChecksum(digits) ? undefined : t('validation.cardNumber');
+};
+
+// CVV length follows the card brand: 4 digits for Amex, 3 for the rest
+export const checkCvv = (value: string, cardNumber = ''): string | undefined => {
+  const brand = detectCardBrand(cardNumber);
+  if (!brand) return /^\d{3,4}$/.test(value) ? undefined : t('validation.cvv');
+  const { label, cvvLength } = cardBrands[brand];
+  return new RegExp(`^\\d{${cvvLength}}$`).test(value)
+    ? undefined
+    : t('validation.cvvLength', { brand: label, length: cvvLength });
+};
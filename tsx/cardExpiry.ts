@@ -0,0 +1,68 @@
+// Card expiry dates, as MM/YY or MM/YYYY. A card is valid through the last
+// day of its expiry month, so one expiring this month is still accepted.
+// "Now" comes from a clock that can be swapped for a fixed one, so the rules
+// can be checked against a known date.
+
+import { t } from './i18n';
+import { maskValue } from './inputMask';
+
+export type Clock = () => Date;
+
+export const systemClock: Clock = () => new Date();
+
+// Cards are not issued further ahead than this
+export const MAX_YEARS_AHEAD = 20;
+
+export interface ExpiryDate {
+  // 1-12
+  month: number;
+  // Four digits
+  year: number;
+}
+
+// Two-digit years land in the hundred years ending MAX_YEARS_AHEAD years
+// from now: in 2026, "46" is 2046 and "47" is 1947
+const expandYear = (twoDigits: number, now: Date): number => {
+  const current = now.getFullYear();
+  const year = current - (current % 100) + twoDigits;
+  if (year > current + MAX_YEARS_AHEAD) return year - 100;
+  if (year < current + MAX_YEARS_AHEAD - 100) return year + 100;
+  return year;
+};
+
+export const parseExpiry = (value: string, clock: Clock = systemClock): ExpiryDate | undefined => {
+  const match = /^(0[1-9]|1[0-2])\/(\d{2}|\d{4})$/.exec(value.trim());
+  if (!match) return undefined;
+  const year = Number(match[2]);
+  return {
+    month: Number(match[1]),
+    year: match[2].length === 2 ? expandYear(year, clock()) : year,
+  };
+};
+
+// The first moment the card is no longer valid: the start of the next month
+export const expiryEnd = ({ month, year }: ExpiryDate): Date => new Date(year, month, 1);
+
+export const isExpired = (expiry: ExpiryDate, clock: Clock = systemClock): boolean =>
+  clock() >= expiryEnd(expiry);
+
+export const isTooFarAhead = ({ month, year }: ExpiryDate, clock: Clock = systemClock): boolean => {
+  const now = clock();
+  return year * 12 + month > (now.getFullYear() + MAX_YEARS_AHEAD) * 12 + now.getMonth() + 1;
+};
+
+// Returns an error message, or undefined when the card is within its dates
+export const checkExpiry = (value: string, clock: Clock = systemClock): string | undefined => {
+  const expiry = parseExpiry(value, clock);
+  if (!expiry) return t('validation.expiryFormat');
+  if (isExpired(expiry, clock)) return t('validation.expired');
+  if (isTooFarAhead(expiry, clock)) return t('validation.expiryTooFar', { years: MAX_YEARS_AHEAD });
+  return undefined;
+};
+
+// MM/YY, or MM/YYYY once more than four digits are typed. Months out of
+// range are left as typed for the check to report.
+export const expiryMask = (value: string): string =>
+  value.replace(/\D/g, '').length > 4 ? '##/####' : '##/##';
+
+export const formatExpiry = (value: string): string => maskValue(value, expiryMask(value));
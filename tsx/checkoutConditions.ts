@@ -0,0 +1,95 @@
+// Declarative conditional fields, modeled on Vaporize.Condition. Conditions
+// are keyed by the value path of a field or of a whole section and say when
+// it is shown, when it is required, what it contributes to the payload while
+// hidden and what happens to its value when it is shown again.
+
+import type { ValidationRules } from './checkoutValidation';
+import { deletePath, getPath, isWithin, setPath } from './valuePaths';
+
+// 'keep' restores what the user typed before hiding; 'clear' starts over
+// from the initial values
+export type ResetPolicy = 'keep' | 'clear';
+
+export interface Condition<T> {
+  // Shown only while this holds; hidden fields skip validation
+  visibleWhen?: (values: T) => boolean;
+  // Required only while this holds, overriding the rule table's `required`
+  requiredWhen?: (values: T) => boolean;
+  // Payload contribution while hidden: nothing ('exclude', the default), or
+  // a substitute computed from the rest of the form
+  whenHidden?: 'exclude' | ((values: T) => unknown);
+  // Defaults to 'keep'
+  reset?: ResetPolicy;
+}
+
+export type Conditions<T> = Record<string, Condition<T>>;
+
+// A path is visible when every condition on it, or on a section containing it, allows it
+export const isVisible = <T>(conditions: Conditions<T>, values: T, path: string): boolean =>
+  Object.entries(conditions).every(
+    ([key, condition]) =>
+      !isWithin(path, key) || !condition.visibleWhen || condition.visibleWhen(values),
+  );
+
+// The innermost `requiredWhen` covering the path decides; undefined when none does
+export const isRequired = <T>(
+  conditions: Conditions<T>,
+  values: T,
+  path: string,
+): boolean | undefined => {
+  const key = Object.keys(conditions)
+    .filter((candidate) => conditions[candidate].requiredWhen && isWithin(path, candidate))
+    .sort((a, b) => b.length - a.length)[0];
+  return key === undefined ? undefined : conditions[key].requiredWhen!(values);
+};
+
+// The rule table with `required` set from the conditions. `paths` maps rule
+// table field names to value paths.
+export const conditionalRules = <T>(
+  rules: ValidationRules,
+  conditions: Conditions<T>,
+  values: T,
+  paths: Record<string, string>,
+): ValidationRules => {
+  const result: ValidationRules = { ...rules };
+  for (const [field, rule] of Object.entries(rules)) {
+    if (!paths[field]) continue;
+    const required = isRequired(conditions, values, paths[field]);
+    if (required !== undefined) result[field] = { ...rule, required };
+  }
+  return result;
+};
+
+// Keys of hidden conditions, leaving out any that lie inside another hidden one
+const hiddenKeys = <T>(conditions: Conditions<T>, values: T): string[] => {
+  const hidden = Object.keys(conditions).filter((key) => !isVisible(conditions, values, key));
+  return hidden.filter((key) => !hidden.some((other) => other !== key && isWithin(key, other)));
+};
+
+// The values as submitted: hidden fields and sections are dropped or replaced
+// by their substitute. Substitutes are computed from the values as entered.
+export const buildPayload = <T>(values: T, conditions: Conditions<T>): T => {
+  let payload = values;
+  for (const key of hiddenKeys(conditions, values)) {
+    const { whenHidden = 'exclude' } = conditions[key];
+    payload =
+      whenHidden === 'exclude' ? deletePath(payload, key) : setPath(payload, key, whenHidden(values));
+  }
+  return payload;
+};
+
+// Keys with a 'clear' policy that the change from `previous` to `next` shows again
+export const revealedKeys = <T>(conditions: Conditions<T>, previous: T, next: T): string[] =>
+  Object.keys(conditions).filter(
+    (key) =>
+      conditions[key].reset === 'clear' &&
+      !isVisible(conditions, previous, key) &&
+      isVisible(conditions, next, key),
+  );
+
+// Applies the reset policy: revealed 'clear' keys go back to their initial values
+export const resetRevealed = <T>(conditions: Conditions<T>, previous: T, next: T, initial: T): T =>
+  revealedKeys(conditions, previous, next).reduce(
+    (result, key) => setPath(result, key, getPath(initial, key)),
+    next,
+  );
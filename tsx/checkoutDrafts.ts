@@ -0,0 +1,186 @@
+// Draft autosave for the checkout forms. Values are written to localStorage
+// on a debounce and offered back on the next visit. Sensitive fields never
+// reach storage, and drafts that are too old or were saved under another
+// schema version are discarded instead of being restored.
+
+import { useEffect, useState } from 'react';
+import { getLocale, t } from './i18n';
+
+export interface Draft<T> {
+  version: number;
+  savedAt: number;
+  values: T;
+}
+
+export interface DraftOptions {
+  // Bump whenever the form's value shape changes
+  version: number;
+  // Drafts older than this are dropped (ms)
+  maxAge?: number;
+  // Autosave debounce (ms)
+  delay?: number;
+  // Dotted value paths that must never be stored
+  isSensitive: (path: string) => boolean;
+}
+
+const DEFAULT_MAX_AGE = 24 * 60 * 60 * 1000;
+const DEFAULT_DELAY = 800;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Copy of `values` without the sensitive paths
+export const redact = <T>(values: T, isSensitive: (path: string) => boolean, prefix = ''): T => {
+  if (!isPlainObject(values)) return values;
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(values)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isSensitive(path)) continue;
+    result[key] = redact(value, isSensitive, path);
+  }
+  return result as T;
+};
+
+// Lays a restored draft over the form's defaults. Only keys the defaults know
+// about, holding a value of the same type, are taken, so a draft can never
+// put the form into a shape it does not expect.
+export const mergeDraft = <T>(defaults: T, saved: unknown): T => {
+  if (!isPlainObject(defaults) || !isPlainObject(saved)) {
+    return typeof saved === typeof defaults && Array.isArray(saved) === Array.isArray(defaults)
+      ? (saved as T)
+      : defaults;
+  }
+  const result: Record<string, unknown> = { ...defaults };
+  for (const key of Object.keys(defaults)) {
+    if (key in saved) result[key] = mergeDraft(defaults[key], saved[key]);
+  }
+  return result as T;
+};
+
+// localStorage can be missing (SSR) or throw (quota, private mode); drafts
+// are a convenience, so any failure just means there is no draft
+const storage = (): Storage | undefined => {
+  try {
+    return typeof window === 'undefined' ? undefined : window.localStorage;
+  } catch {
+    return undefined;
+  }
+};
+
+export const clearDraft = (key: string) => {
+  try {
+    storage()?.removeItem(key);
+  } catch {
+    // ignore
+  }
+};
+
+export const saveDraft = <T>(key: string, values: T, options: DraftOptions) => {
+  const draft: Draft<T> = {
+    version: options.version,
+    savedAt: Date.now(),
+    values: redact(values, options.isSensitive),
+  };
+  try {
+    storage()?.setItem(key, JSON.stringify(draft));
+  } catch {
+    // ignore
+  }
+};
+
+export const loadDraft = <T>(key: string, options: DraftOptions): Draft<T> | undefined => {
+  let draft: Draft<T> | undefined;
+  try {
+    const raw = storage()?.getItem(key);
+    draft = raw ? JSON.parse(raw) : undefined;
+  } catch {
+    draft = undefined;
+  }
+  if (!draft) return undefined;
+
+  const maxAge = options.maxAge ?? DEFAULT_MAX_AGE;
+  const stale =
+    !isPlainObject(draft) ||
+    draft.version !== options.version ||
+    typeof draft.savedAt !== 'number' ||
+    Date.now() - draft.savedAt > maxAge;
+  if (stale) {
+    clearDraft(key);
+    return undefined;
+  }
+  return draft;
+};
+
+// "just now", "5 minutes ago", "3 hours ago", in the active locale
+export const draftAge = (savedAt: number, now = Date.now()): string => {
+  const minutes = Math.floor((now - savedAt) / 60000);
+  if (minutes < 1) return t('draft.justNow');
+  const relative = new Intl.RelativeTimeFormat(getLocale(), { numeric: 'auto' });
+  if (minutes < 60) return relative.format(-minutes, 'minute');
+  return relative.format(-Math.floor(minutes / 60), 'hour');
+};
+
+// Anything that holds the values and says when they change, e.g. the form
+// store (useCheckoutFormStore)
+export interface DraftSource<T> {
+  getValues: () => T;
+  subscribe: (listener: () => void) => () => void;
+}
+
+const isDraftSource = <T>(source: T | DraftSource<T>): source is DraftSource<T> =>
+  isPlainObject(source) && typeof source.getValues === 'function' && typeof source.subscribe === 'function';
+
+// Autosaves `values` under `key`. A draft found on mount is exposed as
+// `draft` until the user restores or discards it; autosave waits for that
+// decision so the stored draft isn't overwritten by the blank form. Given a
+// DraftSource instead of values, autosave follows the source directly and
+// the host does not re-render as the values change.
+export const useDraft = <T>(key: string, source: T | DraftSource<T>, options: DraftOptions) => {
+  const [draft, setDraft] = useState(() => loadDraft<T>(key, options));
+  const store = isDraftSource(source) ? source : undefined;
+  const serializeValues = (values: T) => JSON.stringify(redact(values, options.isSensitive));
+  const serialized = store ? undefined : serializeValues(source as T);
+  const [initial] = useState(() => serialized ?? serializeValues((source as DraftSource<T>).getValues()));
+  const delay = options.delay ?? DEFAULT_DELAY;
+
+  useEffect(() => {
+    // Nothing worth saving until the user has changed something
+    if (store || draft || serialized === initial) return;
+    const values = source as T;
+    const timer = setTimeout(() => saveDraft(key, values, options), delay);
+    return () => clearTimeout(timer);
+  }, [key, serialized, draft]);
+
+  useEffect(() => {
+    if (!store || draft) return;
+    let last = store.getValues();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const unsubscribe = store.subscribe(() => {
+      const values = store.getValues();
+      if (values === last) return;
+      last = values;
+      clearTimeout(timer);
+      if (serializeValues(values) === initial) return;
+      timer = setTimeout(() => saveDraft(key, values, options), delay);
+    });
+    return () => {
+      unsubscribe();
+      clearTimeout(timer);
+    };
+  }, [store, key, draft]);
+
+  return {
+    draft,
+    // Returns the draft values and resumes autosave
+    restore: (): T | undefined => {
+      setDraft(undefined);
+      return draft?.values;
+    },
+    discard: () => {
+      clearDraft(key);
+      setDraft(undefined);
+    },
+    // Call after a successful submit
+    clear: () => clearDraft(key),
+  };
+};
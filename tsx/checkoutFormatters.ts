@@ -0,0 +1,74 @@
+// As-you-type formatters, keyed by field type like the type checks. Each gets
+// the raw input and the value of the field's `depends_on` field (the card
+// number for a CVV, the country for a phone number or postal code). Fields
+// with a fixed layout also have a mask, so inputs can keep the caret in place
+// while they are formatted (inputMask.ts).
+
+import {
+  checkoutValidations,
+  dependencyValue,
+  type FieldType,
+  type FieldValues,
+  type ValidationRules,
+} from './checkoutValidation';
+import { cardNumberMask, cvvLengthFor, formatCardNumber } from './cardBrands';
+import { expiryMask, formatExpiry } from './cardExpiry';
+import { formatPhone, phoneMaskFor } from './phoneNumbers';
+import { formatPostalCode, postalCodeFormatFor } from './postalCodes';
+import { maskValue, type MaskPattern } from './inputMask';
+
+export type Formatter = (value: string, dependency?: string) => string;
+
+export const checkoutFormatters: Partial<Record<FieldType, Formatter>> = {
+  // Credit card: grouped by brand, e.g. 1234 5678 9012 3456 or 3782 822463 10005
+  credit_card: (value) => formatCardNumber(value),
+
+  // Expiry: MM/YY or MM/YYYY
+  expiry: (value) => formatExpiry(value),
+
+  // CVV: 123, or 1234 for Amex
+  cvv: (value, cardNumber = '') => maskValue(value, cvvMask(cardNumber)),
+
+  // Phone: national format of the country, e.g. (123) 456-7890 or 06 12 34 56 78
+  telephone: (value, country) => formatPhone(value, country),
+
+  // Postal code: per country, e.g. 12345-6789, SW1A 1AA or K1A 0B1
+  postal_code: (value, country) => formatPostalCode(value, country),
+};
+
+const cvvMask = (cardNumber: string) => '#'.repeat(cvvLengthFor(cardNumber));
+
+export type MaskFor = (dependency?: string) => MaskPattern | undefined;
+
+// Masks behind the formatters above, for the field types with a fixed layout
+export const checkoutMasks: Partial<Record<FieldType, MaskFor>> = {
+  credit_card: () => cardNumberMask,
+  expiry: () => expiryMask,
+  cvv: (cardNumber = '') => cvvMask(cardNumber),
+  telephone: (country) => phoneMaskFor(country),
+  postal_code: (country) => postalCodeFormatFor(country).mask,
+};
+
+// The mask of a rule table field, if its type has one
+export const maskField = (
+  name: string,
+  values: FieldValues,
+  rules: ValidationRules = checkoutValidations,
+): MaskPattern | undefined => {
+  const rule = rules[name];
+  const mask = rule?.field_type && checkoutMasks[rule.field_type];
+  return mask ? mask(dependencyValue(rule, values)) : undefined;
+};
+
+// Formats a rule table field with its rule's formatter, if it has one
+export const formatField = (
+  name: string,
+  value: string,
+  values: FieldValues,
+  rules: ValidationRules = checkoutValidations,
+): string => {
+  const rule = rules[name];
+  const formatter = rule?.field_type && checkoutFormatters[rule.field_type];
+  if (!formatter) return value;
+  return formatter(value, dependencyValue(rule, values));
+};
@@ -0,0 +1,604 @@
+// Message catalog for both checkout forms: every label and validation message,
+// per locale. Keys are dotted by area; `{name}` placeholders are filled in by
+// `t()` (i18n.ts). English is the reference: the other catalogs must define
+// the same keys.
+
+export const en = {
+  // Rule engine and type checks
+  'validation.required': 'This field is required',
+  'validation.number': 'Must be a number',
+  'validation.email': 'Must be a valid email address',
+  'validation.passwordsMatch': 'Passwords do not match',
+  'validation.minLength': 'Must be at least {min} characters',
+  'validation.maxLength': 'Must be at most {max} characters',
+  'validation.minValue': 'Must be at least {min}',
+  'validation.maxValue': 'Must be at most {max}',
+  'validation.minItems': 'Add at least {min} items',
+  'validation.maxItems': 'Add at most {max} items',
+  'validation.expiryFormat': 'Use MM/YY or MM/YYYY format',
+  'validation.expired': 'Card has expired',
+  'validation.expiryTooFar': 'Expiry can be at most {years} years ahead',
+  'validation.methodRequired': 'Payment method is required',
+  'validation.notesRequired': 'Notes are required',
+  'validation.cardNumber': 'Must be a valid credit card number',
+  'validation.cardLength': '{brand} card numbers must be {lengths} digits',
+  'validation.cvv': 'CVV must be 3-4 digits',
+  'validation.cvvLength': '{brand} CVV must be {length} digits',
+  'validation.phoneCountry': 'Select a country or enter the number in +international format',
+  'validation.phoneCallingCode': 'Phone number must start with +{code} for the selected country',
+  'validation.phone': 'Enter a valid phone number, e.g. {example}',
+  'validation.postalCode': 'Enter a valid postal code',
+  'validation.postalCode.us': 'Enter a 5-digit ZIP code, e.g. 12345 or 12345-6789',
+  'validation.postalCode.ca': 'Enter a postal code like K1A 0B1',
+  'validation.postalCode.uk': 'Enter a postcode like SW1A 1AA',
+  'validation.postalCode.au': 'Enter a 4-digit postcode, e.g. 2000',
+  'validation.postalCode.de': 'Enter a 5-digit Postleitzahl, e.g. 10115',
+  'validation.postalCode.fr': 'Enter a 5-digit code postal, e.g. 75001',
+  'validation.postalCode.jp': 'Enter a postal code like 100-0001',
+  'validation.subdivision.state': 'Select a valid state',
+  'validation.subdivision.province': 'Select a valid province',
+  'validation.subdivision.county': 'Select a valid county',
+  'validation.password.length': 'Password must be at least {min} characters',
+  'validation.password.upper': 'Password must contain an uppercase letter',
+  'validation.password.lower': 'Password must contain a lowercase letter',
+  'validation.password.digit': 'Password must contain a number',
+  'validation.emailTaken': 'An account with this email already exists',
+  'validation.postalCodeUnknown': 'This postal code does not exist',
+  'validation.invalid': 'Invalid value',
+  'validation.option': 'Select one of the options',
+  'validation.or': 'or',
+
+  // Password checklist and strength meter
+  'password.requirements': 'Password requirements',
+  'password.requirement.length': 'At least {min} characters',
+  'password.requirement.upper': 'An uppercase letter',
+  'password.requirement.lower': 'A lowercase letter',
+  'password.requirement.digit': 'A number',
+  'password.strength.0': 'Too weak',
+  'password.strength.1': 'Weak',
+  'password.strength.2': 'Fair',
+  'password.strength.3': 'Good',
+  'password.strength.4': 'Strong',
+  'password.show': 'Show password',
+  'password.hide': 'Hide password',
+  'password.toggleShow': 'Show',
+  'password.toggleHide': 'Hide',
+  'password.capsLock': 'Caps Lock is on',
+  'password.match': 'Passwords match',
+
+  // Field labels, by rule table field name
+  'label.email': 'Email',
+  'label.password': 'Password',
+  'label.confirmPassword': 'Confirm password',
+  'label.phone': 'Phone',
+  'label.notes': 'Notes',
+  'label.method': 'Payment method',
+  'label.cardNumber': 'Card number',
+  'label.expiry': 'Expiry',
+  'label.cvv': 'CVV',
+  'label.paypalEmail': 'PayPal email',
+  'label.billingAddress': 'Billing address',
+  'label.billingCountry': 'Billing country',
+  'label.billingState': 'Billing state',
+  'label.billingCity': 'Billing city',
+  'label.billingPostalCode': 'Billing postal code',
+  'label.address': 'Address',
+  'label.country': 'Country',
+  'label.state': 'State',
+  'label.city': 'City',
+  'label.postalCode': 'Postal code',
+  'label.shippingSameAsBilling': 'Shipping same as billing',
+
+  // Sections and wizard steps
+  'section.account': 'Account',
+  'section.contact': 'Contact',
+  'section.payment': 'Payment',
+  'section.billingAddress': 'Billing address',
+  'section.shipping': 'Shipping',
+  'section.shippingDetails': 'Shipping details',
+  'section.review': 'Review',
+
+  // Subdivision kinds
+  'subdivision.state': 'State',
+  'subdivision.province': 'Province',
+  'subdivision.county': 'County',
+
+  // Options
+  'method.card': 'Credit/debit card',
+  'method.credit': 'Credit Card',
+  'method.credit.description': 'Visa, Mastercard, Amex',
+  'method.debit': 'Debit Card',
+  'method.debit.description': 'Direct from your bank',
+  'method.paypal': 'PayPal',
+  'method.paypal.description': 'Pay with PayPal balance',
+  'method.apple': 'Apple Pay',
+  'method.apple.description': 'Quick and secure',
+  'method.walletConfirm': "You'll confirm the payment with {wallet} after placing your order.",
+  'country.us': 'United States',
+  'country.ca': 'Canada',
+  'country.uk': 'United Kingdom',
+  'country.au': 'Australia',
+  'country.de': 'Germany',
+  'country.fr': 'France',
+  'country.jp': 'Japan',
+
+  // Form chrome
+  'form.language': 'Language',
+  'form.validating': 'Validating…',
+  'form.example': 'e.g. {example}',
+  'list.item': '{label} {index}',
+  'list.add': 'Add',
+  'list.remove': 'Remove {item}',
+  'list.moveUp': 'Move {item} up',
+  'list.moveDown': 'Move {item} down',
+  'list.empty': 'Nothing added yet',
+  'form.fixErrors': 'Please fix the errors below',
+  'form.back': 'Back',
+  'form.next': 'Next',
+  'form.submit': 'Submit',
+  'form.processing': 'Processing...',
+  'draft.found': 'You have an unfinished checkout from {age}',
+  'draft.justNow': 'just now',
+  'draft.restore': 'Restore',
+  'draft.discard': 'Discard',
+  'submission.placed': 'Order {orderId} placed. Thank you!',
+  'submission.failed': 'Checkout failed with {status}',
+  'submission.offline': 'Could not reach the server. Check your connection and try again.',
+
+  // Order summary
+  'summary.title': 'Order summary',
+  'summary.subtotal': 'Subtotal',
+  'summary.shipping': 'Shipping',
+  'summary.tax': 'Tax ({rate})',
+  'summary.total': 'Total',
+  'summary.currency': 'Currency',
+  'summary.quantity': '{quantity} × {price}',
+  'summary.pending': 'Calculated once a shipping country is chosen',
+  'item.toolbox': 'Senet toolbox',
+  'item.seat': 'Team seat',
+};
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
+
+export const nl: Messages = {
+  'validation.required': 'Dit veld is verplicht',
+  'validation.number': 'Moet een getal zijn',
+  'validation.email': 'Moet een geldig e-mailadres zijn',
+  'validation.passwordsMatch': 'Wachtwoorden komen niet overeen',
+  'validation.minLength': 'Moet minstens {min} tekens bevatten',
+  'validation.maxLength': 'Mag hoogstens {max} tekens bevatten',
+  'validation.minValue': 'Moet minstens {min} zijn',
+  'validation.maxValue': 'Mag hoogstens {max} zijn',
+  'validation.minItems': 'Voeg minstens {min} items toe',
+  'validation.maxItems': 'Voeg hoogstens {max} items toe',
+  'validation.expiryFormat': 'Gebruik het formaat MM/JJ of MM/JJJJ',
+  'validation.expired': 'Kaart is verlopen',
+  'validation.expiryTooFar': 'Vervaldatum mag hoogstens {years} jaar vooruit liggen',
+  'validation.methodRequired': 'Betaalmethode is verplicht',
+  'validation.notesRequired': 'Opmerkingen zijn verplicht',
+  'validation.cardNumber': 'Moet een geldig creditcardnummer zijn',
+  'validation.cardLength': '{brand}-kaartnummers hebben {lengths} cijfers',
+  'validation.cvv': 'CVV moet 3-4 cijfers hebben',
+  'validation.cvvLength': '{brand}-CVV moet {length} cijfers hebben',
+  'validation.phoneCountry': 'Kies een land of voer het nummer in met +landcode',
+  'validation.phoneCallingCode': 'Telefoonnummer moet beginnen met +{code} voor het gekozen land',
+  'validation.phone': 'Voer een geldig telefoonnummer in, bijv. {example}',
+  'validation.postalCode': 'Voer een geldige postcode in',
+  'validation.postalCode.us': 'Voer een ZIP-code van 5 cijfers in, bijv. 12345 of 12345-6789',
+  'validation.postalCode.ca': 'Voer een postcode in zoals K1A 0B1',
+  'validation.postalCode.uk': 'Voer een postcode in zoals SW1A 1AA',
+  'validation.postalCode.au': 'Voer een postcode van 4 cijfers in, bijv. 2000',
+  'validation.postalCode.de': 'Voer een Postleitzahl van 5 cijfers in, bijv. 10115',
+  'validation.postalCode.fr': 'Voer een code postal van 5 cijfers in, bijv. 75001',
+  'validation.postalCode.jp': 'Voer een postcode in zoals 100-0001',
+  'validation.subdivision.state': 'Kies een geldige staat',
+  'validation.subdivision.province': 'Kies een geldige provincie',
+  'validation.subdivision.county': 'Kies een geldig graafschap',
+  'validation.password.length': 'Wachtwoord moet minstens {min} tekens bevatten',
+  'validation.password.upper': 'Wachtwoord moet een hoofdletter bevatten',
+  'validation.password.lower': 'Wachtwoord moet een kleine letter bevatten',
+  'validation.password.digit': 'Wachtwoord moet een cijfer bevatten',
+  'validation.emailTaken': 'Er bestaat al een account met dit e-mailadres',
+  'validation.postalCodeUnknown': 'Deze postcode bestaat niet',
+  'validation.invalid': 'Ongeldige waarde',
+  'validation.option': 'Kies een van de opties',
+  'validation.or': 'of',
+
+  'password.requirements': 'Wachtwoordeisen',
+  'password.requirement.length': 'Minstens {min} tekens',
+  'password.requirement.upper': 'Een hoofdletter',
+  'password.requirement.lower': 'Een kleine letter',
+  'password.requirement.digit': 'Een cijfer',
+  'password.strength.0': 'Te zwak',
+  'password.strength.1': 'Zwak',
+  'password.strength.2': 'Redelijk',
+  'password.strength.3': 'Goed',
+  'password.strength.4': 'Sterk',
+  'password.show': 'Wachtwoord tonen',
+  'password.hide': 'Wachtwoord verbergen',
+  'password.toggleShow': 'Toon',
+  'password.toggleHide': 'Verberg',
+  'password.capsLock': 'Caps Lock staat aan',
+  'password.match': 'Wachtwoorden komen overeen',
+
+  'label.email': 'E-mail',
+  'label.password': 'Wachtwoord',
+  'label.confirmPassword': 'Bevestig wachtwoord',
+  'label.phone': 'Telefoon',
+  'label.notes': 'Opmerkingen',
+  'label.method': 'Betaalmethode',
+  'label.cardNumber': 'Kaartnummer',
+  'label.expiry': 'Vervaldatum',
+  'label.cvv': 'CVV',
+  'label.paypalEmail': 'PayPal-e-mailadres',
+  'label.billingAddress': 'Factuuradres',
+  'label.billingCountry': 'Factuurland',
+  'label.billingState': 'Factuurstaat',
+  'label.billingCity': 'Factuurplaats',
+  'label.billingPostalCode': 'Factuurpostcode',
+  'label.address': 'Adres',
+  'label.country': 'Land',
+  'label.state': 'Staat',
+  'label.city': 'Plaats',
+  'label.postalCode': 'Postcode',
+  'label.shippingSameAsBilling': 'Verzendadres gelijk aan factuuradres',
+
+  'section.account': 'Account',
+  'section.contact': 'Contact',
+  'section.payment': 'Betaling',
+  'section.billingAddress': 'Factuuradres',
+  'section.shipping': 'Verzending',
+  'section.shippingDetails': 'Verzendgegevens',
+  'section.review': 'Controleren',
+
+  'subdivision.state': 'Staat',
+  'subdivision.province': 'Provincie',
+  'subdivision.county': 'Graafschap',
+
+  'method.card': 'Credit-/debitcard',
+  'method.credit': 'Creditcard',
+  'method.credit.description': 'Visa, Mastercard, Amex',
+  'method.debit': 'Debitcard',
+  'method.debit.description': 'Rechtstreeks van je bank',
+  'method.paypal': 'PayPal',
+  'method.paypal.description': 'Betaal met je PayPal-saldo',
+  'method.apple': 'Apple Pay',
+  'method.apple.description': 'Snel en veilig',
+  'method.walletConfirm': 'Je bevestigt de betaling met {wallet} nadat je de bestelling hebt geplaatst.',
+  'country.us': 'Verenigde Staten',
+  'country.ca': 'Canada',
+  'country.uk': 'Verenigd Koninkrijk',
+  'country.au': 'Australië',
+  'country.de': 'Duitsland',
+  'country.fr': 'Frankrijk',
+  'country.jp': 'Japan',
+
+  'form.language': 'Taal',
+  'form.validating': 'Controleren…',
+  'form.example': 'bijv. {example}',
+  'list.item': '{label} {index}',
+  'list.add': 'Toevoegen',
+  'list.remove': '{item} verwijderen',
+  'list.moveUp': '{item} omhoog verplaatsen',
+  'list.moveDown': '{item} omlaag verplaatsen',
+  'list.empty': 'Nog niets toegevoegd',
+  'form.fixErrors': 'Corrigeer de onderstaande fouten',
+  'form.back': 'Terug',
+  'form.next': 'Volgende',
+  'form.submit': 'Bestellen',
+  'form.processing': 'Bezig...',
+  'draft.found': 'Je hebt een onafgeronde bestelling van {age}',
+  'draft.justNow': 'zojuist',
+  'draft.restore': 'Herstellen',
+  'draft.discard': 'Verwijderen',
+  'submission.placed': 'Bestelling {orderId} geplaatst. Bedankt!',
+  'submission.failed': 'Bestellen mislukt met {status}',
+  'submission.offline': 'De server is niet bereikbaar. Controleer je verbinding en probeer het opnieuw.',
+
+  'summary.title': 'Besteloverzicht',
+  'summary.subtotal': 'Subtotaal',
+  'summary.shipping': 'Verzendkosten',
+  'summary.tax': 'Btw ({rate})',
+  'summary.total': 'Totaal',
+  'summary.currency': 'Valuta',
+  'summary.quantity': '{quantity} × {price}',
+  'summary.pending': 'Berekend zodra een verzendland is gekozen',
+  'item.toolbox': 'Senet-gereedschapskist',
+  'item.seat': 'Teamlicentie',
+};
+
+export const de: Messages = {
+  'validation.required': 'Dieses Feld ist erforderlich',
+  'validation.number': 'Muss eine Zahl sein',
+  'validation.email': 'Muss eine gültige E-Mail-Adresse sein',
+  'validation.passwordsMatch': 'Passwörter stimmen nicht überein',
+  'validation.minLength': 'Muss mindestens {min} Zeichen lang sein',
+  'validation.maxLength': 'Darf höchstens {max} Zeichen lang sein',
+  'validation.minValue': 'Muss mindestens {min} sein',
+  'validation.maxValue': 'Darf höchstens {max} sein',
+  'validation.minItems': 'Mindestens {min} Einträge hinzufügen',
+  'validation.maxItems': 'Höchstens {max} Einträge hinzufügen',
+  'validation.expiryFormat': 'Format MM/JJ oder MM/JJJJ verwenden',
+  'validation.expired': 'Karte ist abgelaufen',
+  'validation.expiryTooFar': 'Ablaufdatum darf höchstens {years} Jahre in der Zukunft liegen',
+  'validation.methodRequired': 'Zahlungsart ist erforderlich',
+  'validation.notesRequired': 'Anmerkungen sind erforderlich',
+  'validation.cardNumber': 'Muss eine gültige Kreditkartennummer sein',
+  'validation.cardLength': '{brand}-Kartennummern haben {lengths} Ziffern',
+  'validation.cvv': 'CVV muss 3-4 Ziffern haben',
+  'validation.cvvLength': '{brand}-CVV muss {length} Ziffern haben',
+  'validation.phoneCountry': 'Land wählen oder Nummer im Format +Ländervorwahl eingeben',
+  'validation.phoneCallingCode': 'Telefonnummer muss für das gewählte Land mit +{code} beginnen',
+  'validation.phone': 'Gültige Telefonnummer eingeben, z. B. {example}',
+  'validation.postalCode': 'Gültige Postleitzahl eingeben',
+  'validation.postalCode.us': '5-stelligen ZIP-Code eingeben, z. B. 12345 oder 12345-6789',
+  'validation.postalCode.ca': 'Postleitzahl wie K1A 0B1 eingeben',
+  'validation.postalCode.uk': 'Postcode wie SW1A 1AA eingeben',
+  'validation.postalCode.au': '4-stellige Postleitzahl eingeben, z. B. 2000',
+  'validation.postalCode.de': '5-stellige Postleitzahl eingeben, z. B. 10115',
+  'validation.postalCode.fr': '5-stelligen Code postal eingeben, z. B. 75001',
+  'validation.postalCode.jp': 'Postleitzahl wie 100-0001 eingeben',
+  'validation.subdivision.state': 'Gültigen Bundesstaat wählen',
+  'validation.subdivision.province': 'Gültige Provinz wählen',
+  'validation.subdivision.county': 'Gültige Grafschaft wählen',
+  'validation.password.length': 'Passwort muss mindestens {min} Zeichen lang sein',
+  'validation.password.upper': 'Passwort muss einen Großbuchstaben enthalten',
+  'validation.password.lower': 'Passwort muss einen Kleinbuchstaben enthalten',
+  'validation.password.digit': 'Passwort muss eine Ziffer enthalten',
+  'validation.emailTaken': 'Mit dieser E-Mail-Adresse existiert bereits ein Konto',
+  'validation.postalCodeUnknown': 'Diese Postleitzahl existiert nicht',
+  'validation.invalid': 'Ungültiger Wert',
+  'validation.option': 'Eine der Optionen wählen',
+  'validation.or': 'oder',
+
+  'password.requirements': 'Passwortanforderungen',
+  'password.requirement.length': 'Mindestens {min} Zeichen',
+  'password.requirement.upper': 'Ein Großbuchstabe',
+  'password.requirement.lower': 'Ein Kleinbuchstabe',
+  'password.requirement.digit': 'Eine Ziffer',
+  'password.strength.0': 'Zu schwach',
+  'password.strength.1': 'Schwach',
+  'password.strength.2': 'Mittel',
+  'password.strength.3': 'Gut',
+  'password.strength.4': 'Stark',
+  'password.show': 'Passwort anzeigen',
+  'password.hide': 'Passwort verbergen',
+  'password.toggleShow': 'Zeigen',
+  'password.toggleHide': 'Verbergen',
+  'password.capsLock': 'Feststelltaste ist aktiv',
+  'password.match': 'Passwörter stimmen überein',
+
+  'label.email': 'E-Mail',
+  'label.password': 'Passwort',
+  'label.confirmPassword': 'Passwort bestätigen',
+  'label.phone': 'Telefon',
+  'label.notes': 'Anmerkungen',
+  'label.method': 'Zahlungsart',
+  'label.cardNumber': 'Kartennummer',
+  'label.expiry': 'Ablaufdatum',
+  'label.cvv': 'CVV',
+  'label.paypalEmail': 'PayPal-E-Mail',
+  'label.billingAddress': 'Rechnungsadresse',
+  'label.billingCountry': 'Rechnungsland',
+  'label.billingState': 'Rechnungs-Bundesstaat',
+  'label.billingCity': 'Rechnungsort',
+  'label.billingPostalCode': 'Rechnungs-PLZ',
+  'label.address': 'Adresse',
+  'label.country': 'Land',
+  'label.state': 'Bundesstaat',
+  'label.city': 'Ort',
+  'label.postalCode': 'Postleitzahl',
+  'label.shippingSameAsBilling': 'Lieferadresse wie Rechnungsadresse',
+
+  'section.account': 'Konto',
+  'section.contact': 'Kontakt',
+  'section.payment': 'Zahlung',
+  'section.billingAddress': 'Rechnungsadresse',
+  'section.shipping': 'Versand',
+  'section.shippingDetails': 'Versanddetails',
+  'section.review': 'Überprüfen',
+
+  'subdivision.state': 'Bundesstaat',
+  'subdivision.province': 'Provinz',
+  'subdivision.county': 'Grafschaft',
+
+  'method.card': 'Kredit-/Debitkarte',
+  'method.credit': 'Kreditkarte',
+  'method.credit.description': 'Visa, Mastercard, Amex',
+  'method.debit': 'Debitkarte',
+  'method.debit.description': 'Direkt von Ihrer Bank',
+  'method.paypal': 'PayPal',
+  'method.paypal.description': 'Mit PayPal-Guthaben bezahlen',
+  'method.apple': 'Apple Pay',
+  'method.apple.description': 'Schnell und sicher',
+  'method.walletConfirm': 'Sie bestätigen die Zahlung mit {wallet}, nachdem Sie die Bestellung aufgegeben haben.',
+  'country.us': 'Vereinigte Staaten',
+  'country.ca': 'Kanada',
+  'country.uk': 'Vereinigtes Königreich',
+  'country.au': 'Australien',
+  'country.de': 'Deutschland',
+  'country.fr': 'Frankreich',
+  'country.jp': 'Japan',
+
+  'form.language': 'Sprache',
+  'form.validating': 'Wird geprüft…',
+  'form.example': 'z. B. {example}',
+  'list.item': '{label} {index}',
+  'list.add': 'Hinzufügen',
+  'list.remove': '{item} entfernen',
+  'list.moveUp': '{item} nach oben verschieben',
+  'list.moveDown': '{item} nach unten verschieben',
+  'list.empty': 'Noch nichts hinzugefügt',
+  'form.fixErrors': 'Bitte korrigieren Sie die folgenden Fehler',
+  'form.back': 'Zurück',
+  'form.next': 'Weiter',
+  'form.submit': 'Bestellen',
+  'form.processing': 'Wird verarbeitet...',
+  'draft.found': 'Sie haben eine unvollständige Bestellung von {age}',
+  'draft.justNow': 'gerade eben',
+  'draft.restore': 'Wiederherstellen',
+  'draft.discard': 'Verwerfen',
+  'submission.placed': 'Bestellung {orderId} aufgegeben. Vielen Dank!',
+  'submission.failed': 'Bestellung fehlgeschlagen mit {status}',
+  'submission.offline':
+    'Der Server ist nicht erreichbar. Prüfen Sie Ihre Verbindung und versuchen Sie es erneut.',
+
+  'summary.title': 'Bestellübersicht',
+  'summary.subtotal': 'Zwischensumme',
+  'summary.shipping': 'Versand',
+  'summary.tax': 'MwSt. ({rate})',
+  'summary.total': 'Gesamt',
+  'summary.currency': 'Währung',
+  'summary.quantity': '{quantity} × {price}',
+  'summary.pending': 'Wird berechnet, sobald ein Lieferland gewählt ist',
+  'item.toolbox': 'Senet-Werkzeugkasten',
+  'item.seat': 'Team-Lizenz',
+};
+
+export const fr: Messages = {
+  'validation.required': 'Ce champ est obligatoire',
+  'validation.number': 'Doit être un nombre',
+  'validation.email': 'Doit être une adresse e-mail valide',
+  'validation.passwordsMatch': 'Les mots de passe ne correspondent pas',
+  'validation.minLength': 'Doit contenir au moins {min} caractères',
+  'validation.maxLength': 'Doit contenir au plus {max} caractères',
+  'validation.minValue': 'Doit être au moins {min}',
+  'validation.maxValue': 'Doit être au plus {max}',
+  'validation.minItems': 'Ajoutez au moins {min} éléments',
+  'validation.maxItems': 'Ajoutez au plus {max} éléments',
+  'validation.expiryFormat': 'Utilisez le format MM/AA ou MM/AAAA',
+  'validation.expired': 'La carte a expiré',
+  'validation.expiryTooFar': "La date d'expiration ne peut pas dépasser {years} ans",
+  'validation.methodRequired': 'Le mode de paiement est obligatoire',
+  'validation.notesRequired': 'Les remarques sont obligatoires',
+  'validation.cardNumber': 'Doit être un numéro de carte valide',
+  'validation.cardLength': 'Les numéros de carte {brand} comportent {lengths} chiffres',
+  'validation.cvv': 'Le CVV doit comporter 3 ou 4 chiffres',
+  'validation.cvvLength': 'Le CVV {brand} doit comporter {length} chiffres',
+  'validation.phoneCountry': 'Choisissez un pays ou saisissez le numéro au format +international',
+  'validation.phoneCallingCode': 'Le numéro doit commencer par +{code} pour le pays choisi',
+  'validation.phone': 'Saisissez un numéro de téléphone valide, p. ex. {example}',
+  'validation.postalCode': 'Saisissez un code postal valide',
+  'validation.postalCode.us': 'Saisissez un code ZIP à 5 chiffres, p. ex. 12345 ou 12345-6789',
+  'validation.postalCode.ca': 'Saisissez un code postal comme K1A 0B1',
+  'validation.postalCode.uk': 'Saisissez un postcode comme SW1A 1AA',
+  'validation.postalCode.au': 'Saisissez un code postal à 4 chiffres, p. ex. 2000',
+  'validation.postalCode.de': 'Saisissez une Postleitzahl à 5 chiffres, p. ex. 10115',
+  'validation.postalCode.fr': 'Saisissez un code postal à 5 chiffres, p. ex. 75001',
+  'validation.postalCode.jp': 'Saisissez un code postal comme 100-0001',
+  'validation.subdivision.state': 'Choisissez un État valide',
+  'validation.subdivision.province': 'Choisissez une province valide',
+  'validation.subdivision.county': 'Choisissez un comté valide',
+  'validation.password.length': 'Le mot de passe doit contenir au moins {min} caractères',
+  'validation.password.upper': 'Le mot de passe doit contenir une majuscule',
+  'validation.password.lower': 'Le mot de passe doit contenir une minuscule',
+  'validation.password.digit': 'Le mot de passe doit contenir un chiffre',
+  'validation.emailTaken': 'Un compte existe déjà avec cette adresse e-mail',
+  'validation.postalCodeUnknown': "Ce code postal n'existe pas",
+  'validation.invalid': 'Valeur invalide',
+  'validation.option': "Choisissez l'une des options",
+  'validation.or': 'ou',
+
+  'password.requirements': 'Exigences du mot de passe',
+  'password.requirement.length': 'Au moins {min} caractères',
+  'password.requirement.upper': 'Une majuscule',
+  'password.requirement.lower': 'Une minuscule',
+  'password.requirement.digit': 'Un chiffre',
+  'password.strength.0': 'Trop faible',
+  'password.strength.1': 'Faible',
+  'password.strength.2': 'Moyen',
+  'password.strength.3': 'Bon',
+  'password.strength.4': 'Fort',
+  'password.show': 'Afficher le mot de passe',
+  'password.hide': 'Masquer le mot de passe',
+  'password.toggleShow': 'Afficher',
+  'password.toggleHide': 'Masquer',
+  'password.capsLock': 'Verr. Maj est activé',
+  'password.match': 'Les mots de passe correspondent',
+
+  'label.email': 'E-mail',
+  'label.password': 'Mot de passe',
+  'label.confirmPassword': 'Confirmer le mot de passe',
+  'label.phone': 'Téléphone',
+  'label.notes': 'Remarques',
+  'label.method': 'Mode de paiement',
+  'label.cardNumber': 'Numéro de carte',
+  'label.expiry': "Date d'expiration",
+  'label.cvv': 'CVV',
+  'label.paypalEmail': 'E-mail PayPal',
+  'label.billingAddress': 'Adresse de facturation',
+  'label.billingCountry': 'Pays de facturation',
+  'label.billingState': 'État de facturation',
+  'label.billingCity': 'Ville de facturation',
+  'label.billingPostalCode': 'Code postal de facturation',
+  'label.address': 'Adresse',
+  'label.country': 'Pays',
+  'label.state': 'État',
+  'label.city': 'Ville',
+  'label.postalCode': 'Code postal',
+  'label.shippingSameAsBilling': 'Livraison à l’adresse de facturation',
+
+  'section.account': 'Compte',
+  'section.contact': 'Contact',
+  'section.payment': 'Paiement',
+  'section.billingAddress': 'Adresse de facturation',
+  'section.shipping': 'Livraison',
+  'section.shippingDetails': 'Détails de livraison',
+  'section.review': 'Vérification',
+
+  'subdivision.state': 'État',
+  'subdivision.province': 'Province',
+  'subdivision.county': 'Comté',
+
+  'method.card': 'Carte de crédit/débit',
+  'method.credit': 'Carte de crédit',
+  'method.credit.description': 'Visa, Mastercard, Amex',
+  'method.debit': 'Carte de débit',
+  'method.debit.description': 'Directement depuis votre banque',
+  'method.paypal': 'PayPal',
+  'method.paypal.description': 'Payer avec votre solde PayPal',
+  'method.apple': 'Apple Pay',
+  'method.apple.description': 'Rapide et sécurisé',
+  'method.walletConfirm': 'Vous confirmerez le paiement avec {wallet} après avoir passé la commande.',
+  'country.us': 'États-Unis',
+  'country.ca': 'Canada',
+  'country.uk': 'Royaume-Uni',
+  'country.au': 'Australie',
+  'country.de': 'Allemagne',
+  'country.fr': 'France',
+  'country.jp': 'Japon',
+
+  'form.language': 'Langue',
+  'form.validating': 'Vérification…',
+  'form.example': 'p. ex. {example}',
+  'list.item': '{label} {index}',
+  'list.add': 'Ajouter',
+  'list.remove': 'Supprimer {item}',
+  'list.moveUp': 'Monter {item}',
+  'list.moveDown': 'Descendre {item}',
+  'list.empty': 'Rien ajouté pour le moment',
+  'form.fixErrors': 'Veuillez corriger les erreurs ci-dessous',
+  'form.back': 'Retour',
+  'form.next': 'Suivant',
+  'form.submit': 'Commander',
+  'form.processing': 'Traitement...',
+  'draft.found': 'Vous avez une commande inachevée de {age}',
+  'draft.justNow': "à l'instant",
+  'draft.restore': 'Restaurer',
+  'draft.discard': 'Supprimer',
+  'submission.placed': 'Commande {orderId} passée. Merci !',
+  'submission.failed': 'La commande a échoué avec {status}',
+  'submission.offline': 'Serveur injoignable. Vérifiez votre connexion et réessayez.',
+
+  'summary.title': 'Récapitulatif de commande',
+  'summary.subtotal': 'Sous-total',
+  'summary.shipping': 'Livraison',
+  'summary.tax': 'TVA ({rate})',
+  'summary.total': 'Total',
+  'summary.currency': 'Devise',
+  'summary.quantity': '{quantity} × {price}',
+  'summary.pending': "Calculé dès qu'un pays de livraison est choisi",
+  'item.toolbox': 'Boîte à outils Senet',
+  'item.seat': "Licence d'équipe",
+};
@@ -0,0 +1,216 @@
+// The classic checkout form's zod schema, with the nested value paths,
+// conditions, defaults and validation built on it. It lives apart from the
+// form so the validation conformance runner (runConformance.ts) can load it
+// without the form's components.
+
+import { z } from 'zod';
+import {
+  checkoutValidations,
+  validateForm,
+  type FieldErrors,
+  type FieldValues,
+} from './checkoutValidation';
+import { conditionalRules, isVisible, type Conditions } from './checkoutConditions';
+import { paymentConditions } from './paymentMethods';
+import { subdivisionInfoFor } from './subdivisions';
+import { checkoutErrorMap } from './i18n';
+import { getPath, setPath } from './valuePaths';
+import { systemClock, type Clock } from './cardExpiry';
+
+export const paymentMethod = z.enum(['card', 'paypal']);
+
+// Rule table field name -> nested form path. Field rules live in the shared
+// table (checkoutValidation.ts); zod only describes the shape.
+export const fieldPaths: Record<string, string> = {
+  email: 'account.email',
+  password: 'account.password',
+  confirmPassword: 'account.confirmpassword',
+  phone: 'account.contact.phone',
+  notes: 'account.notes',
+  method: 'payment.method',
+  expiry: 'payment.expiry',
+  cvv: 'payment.cvv',
+  billingAddress: 'payment.billing.address',
+  billingCountry: 'payment.billing.country',
+  billingState: 'payment.billing.state',
+  billingCity: 'payment.billing.city',
+  billingPostalCode: 'payment.billing.postalcode',
+  cardNumber: 'payment.cardnumber',
+  paypalEmail: 'payment.paypalemail',
+  address: 'shipping.address',
+  country: 'shipping.country',
+  state: 'shipping.state',
+  city: 'shipping.city',
+  postalCode: 'shipping.postalcode',
+};
+
+// Account schema. Descriptions are message keys, so the schema-driven form
+// is labelled in the active locale
+const accountSchema = z
+  .object({
+    email: z.string().describe('label.email'),
+    password: z.string().describe('label.password'),
+    confirmpassword: z.string().describe('label.confirmPassword'),
+    notes: z.array(z.string()).describe('label.notes'),
+    contact: z
+      .object({
+        phone: z.string().describe('label.phone'),
+      })
+      .describe('section.contact'),
+  })
+  .describe('section.account');
+
+// Address schema, shared by billing and shipping
+const addressSchema = z.object({
+  address: z.string().describe('label.address'),
+  country: z.string().describe('label.country'),
+  state: z.string().describe('label.state'),
+  city: z.string().describe('label.city'),
+  postalcode: z.string().describe('label.postalCode'),
+});
+
+// Payment schemas, one per method: a discriminated union on `method`
+const billingSchema = addressSchema.describe('section.billingAddress');
+
+const cardPayment = z.object({
+  method: z.literal(paymentMethod.enum.card).describe('label.method'),
+  expiry: z.string().describe('label.expiry'),
+  cvv: z.string().describe('label.cvv'),
+  cardnumber: z.string().describe('label.cardNumber'),
+  billing: billingSchema,
+});
+
+const paypalPayment = z.object({
+  method: z.literal(paymentMethod.enum.paypal).describe('label.method'),
+  paypalemail: z.string().describe('label.paypalEmail'),
+  billing: billingSchema,
+});
+
+const paymentSchema = z
+  .discriminatedUnion('method', [cardPayment, paypalPayment])
+  .describe('section.payment');
+
+export const checkoutFormSchema = z.object({
+  account: accountSchema,
+  payment: paymentSchema,
+  shippingdetails: z
+    .object({
+      shippingsameasbilling: z.boolean().describe('label.shippingSameAsBilling'),
+    })
+    .describe('section.shippingDetails'),
+  shipping: addressSchema.describe('section.shipping'),
+});
+
+// The form holds the fields of every payment method at once, so switching
+// back and forth keeps what was typed, and no method until one is chosen.
+// The submitted payload keeps only the chosen method's fields.
+export type CheckoutFormData = Omit<z.infer<typeof checkoutFormSchema>, 'payment'> & {
+  payment: Omit<z.infer<typeof cardPayment>, 'method'> &
+    Omit<z.infer<typeof paypalPayment>, 'method'> & {
+      method: z.infer<typeof paymentMethod> | '';
+    };
+};
+
+// Only countries with a fixed list of states require one
+const requiresState = (country?: string) => Boolean(subdivisionInfoFor(country).options);
+
+// Conditional fields, like Vaporize.Condition on the Zig side. Shipping is
+// only asked for when it differs from billing; until then the payload's
+// shipping block is a copy of the billing address.
+export const checkoutConditions: Conditions<CheckoutFormData> = {
+  shipping: {
+    visibleWhen: (data) => !data.shippingdetails.shippingsameasbilling,
+    whenHidden: (data) => data.payment.billing,
+    reset: 'keep',
+  },
+  'payment.billing.state': {
+    requiredWhen: (data) => requiresState(data.payment.billing.country),
+  },
+  'shipping.state': {
+    requiredWhen: (data) => requiresState(data.shipping.country),
+  },
+  // Card fields for cards, the account email for PayPal
+  ...paymentConditions<CheckoutFormData>((data) => data.payment.method, fieldPaths),
+};
+
+// Flattens nested form data into rule table values, leaving out hidden
+// fields so the rules skip them, and lists, which the form hook checks item
+// by item
+const flattenValues = (data: CheckoutFormData): FieldValues => {
+  const values: FieldValues = {};
+  for (const [field, path] of Object.entries(fieldPaths)) {
+    const value = getPath(data, path);
+    if (Array.isArray(value) || !isVisible(checkoutConditions, data, path)) continue;
+    values[field] = String(value ?? '');
+  }
+  return values;
+};
+
+// Errors keyed by nested path, the shape the form hook expects: the shared
+// rule table's for every visible field, then zod's own issues. The rule
+// table is checked separately because zod skips refinements once the
+// payment union has failed, e.g. while no method is chosen. `clock` is "now"
+// for the expiry rules.
+export const validateCheckout = (data: CheckoutFormData, clock: Clock = systemClock): FieldErrors => {
+  const rules = conditionalRules(checkoutValidations, checkoutConditions, data, fieldPaths);
+  const errors: FieldErrors = {};
+  for (const [field, message] of Object.entries(validateForm(flattenValues(data), rules, clock))) {
+    errors[fieldPaths[field]] = message;
+  }
+  const result = checkoutFormSchema.safeParse(data, { errorMap: checkoutErrorMap });
+  if (!result.success) {
+    for (const issue of result.error.issues) {
+      errors[issue.path.join('.')] ??= issue.message;
+    }
+  }
+  return errors;
+};
+
+const emptyAddress = {
+  address: '',
+  country: '',
+  state: '',
+  city: '',
+  postalcode: '',
+};
+
+export const defaultValues: CheckoutFormData = {
+  account: {
+    email: 'vicrokx@gmail.com',
+    password: '',
+    confirmpassword: '',
+    notes: [],
+    contact: {
+      phone: '+31683214074',
+    },
+  },
+  payment: {
+    method: '',
+    expiry: '',
+    cvv: '123',
+    cardnumber: '9999 9999 9999 9999',
+    paypalemail: '',
+    billing: emptyAddress,
+  },
+  shippingdetails: {
+    shippingsameasbilling: false,
+  },
+  shipping: emptyAddress,
+};
+
+// Flat rule table values in, errors by rule table field name out: the
+// checkout schema as the validation conformance corpus runs it. Fields the
+// values leave out keep their defaults.
+export const checkoutSchemaErrors = (values: FieldValues, clock: Clock = systemClock): FieldErrors => {
+  const data = Object.entries(values)
+    .filter(([field]) => fieldPaths[field])
+    .reduce((current, [field, value]) => setPath(current, fieldPaths[field], value), defaultValues);
+  const fieldOf = Object.fromEntries(
+    Object.entries(fieldPaths).map(([field, path]) => [path, field]),
+  );
+  return Object.fromEntries(
+    Object.entries(validateCheckout(data, clock))
+      .filter(([path]) => fieldOf[path])
+      .map(([path, message]) => [fieldOf[path], message]),
+  );
+};
@@ -0,0 +1,160 @@
+// Order submission through a pluggable adapter. Every request carries an
+// idempotency key, so a retried request can never place an order twice;
+// transient failures are retried with exponential backoff; and server field
+// errors are mapped back onto the form's value paths.
+
+import { useRef, useState } from 'react';
+import { normalizeFieldName, type FieldErrors } from './checkoutValidation';
+import type { Fetcher } from './asyncValidation';
+import { identityPaths } from './useCheckoutForm';
+import { t } from './i18n';
+import { wait } from './wait';
+
+export type SubmissionOutcome =
+  | { ok: true; orderId: string }
+  | { ok: false; status: number; message: string; fieldErrors?: FieldErrors };
+
+// Sends one attempt. Network failures reject; anything the server answers resolves.
+export type SubmissionAdapter = (
+  payload: unknown,
+  idempotencyKey: string,
+  signal?: AbortSignal,
+) => Promise<SubmissionOutcome>;
+
+export interface RetryOptions {
+  // Attempts after the first
+  retries?: number;
+  // Delay before the first retry (ms); doubles on each further one
+  baseDelay?: number;
+  signal?: AbortSignal;
+}
+
+// Status reported when the request never got an answer
+const NETWORK_FAILURE = 0;
+
+const DEFAULT_RETRIES = 2;
+const DEFAULT_BASE_DELAY = 500;
+
+export const createFetchSubmitter = (
+  fetcher: Fetcher = (input, init) => fetch(input, init),
+  url = '/api/checkout/orders',
+): SubmissionAdapter => async (payload, idempotencyKey, signal) => {
+  const response = await fetcher(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Idempotency-Key': idempotencyKey },
+    body: JSON.stringify(payload),
+    signal,
+  });
+  const body = await response.json().catch(() => ({}));
+  if (response.ok) return { ok: true, orderId: body.orderId };
+  return {
+    ok: false,
+    status: response.status,
+    message: body.message ?? t('submission.failed', { status: response.status }),
+    fieldErrors: body.errors,
+  };
+};
+
+// Worth another attempt: the request may never have arrived, or the server
+// asked for one
+export const isTransient = (status: number): boolean =>
+  status === NETWORK_FAILURE || status === 408 || status === 429 || status >= 500;
+
+export const createIdempotencyKey = (): string =>
+  globalThis.crypto?.randomUUID?.() ??
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// Sends the payload, retrying transient failures with the same key
+export const submitWithRetry = async (
+  adapter: SubmissionAdapter,
+  payload: unknown,
+  idempotencyKey: string,
+  { retries = DEFAULT_RETRIES, baseDelay = DEFAULT_BASE_DELAY, signal }: RetryOptions = {},
+): Promise<SubmissionOutcome> => {
+  for (let attempt = 0; ; attempt++) {
+    let outcome: SubmissionOutcome;
+    try {
+      outcome = await adapter(payload, idempotencyKey, signal);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      outcome = {
+        ok: false,
+        status: NETWORK_FAILURE,
+        message: t('submission.offline'),
+      };
+    }
+    if (outcome.ok || !isTransient(outcome.status) || attempt >= retries) return outcome;
+    await wait(baseDelay * 2 ** attempt, signal);
+  }
+};
+
+// Server errors may be keyed by rule table name (cardNumber), its snake_case
+// form (card_number) or already by value path; all land on value paths. List
+// items keep their index: notes.2 lands on account.notes.2.
+// `paths` maps rule table field names to value paths, as in useCheckoutForm.
+export const mapServerErrors = (
+  errors: FieldErrors = {},
+  paths: Record<string, string> = identityPaths,
+): FieldErrors => {
+  const byName = new Map(
+    Object.entries(paths).map(([field, path]) => [normalizeFieldName(field), path]),
+  );
+  const known = new Set(Object.values(paths));
+  const pathOf = (key: string): string => {
+    if (known.has(key)) return key;
+    const [, name, index] = /^(.*)\.(\d+)$/.exec(key) ?? [key, key];
+    const path = byName.get(normalizeFieldName(name));
+    if (!path) return key;
+    return index === undefined ? path : `${path}.${index}`;
+  };
+  return Object.fromEntries(
+    Object.entries(errors).map(([key, message]) => [pathOf(key), message]),
+  );
+};
+
+export type SubmissionStatus = 'idle' | 'submitting' | 'success' | 'failure';
+
+export const useSubmission = (adapter: SubmissionAdapter, options: RetryOptions = {}) => {
+  const [status, setStatus] = useState<SubmissionStatus>('idle');
+  const [outcome, setOutcome] = useState<SubmissionOutcome>();
+  const inFlight = useRef<Promise<SubmissionOutcome>>();
+  // The key follows the payload: resubmitting the same order after a failure
+  // reuses it, so the server can recognise a repeat
+  const key = useRef<{ payload: string; key: string }>();
+
+  // A second call while a submission is in flight joins it instead of sending again
+  const submit = (payload: unknown): Promise<SubmissionOutcome> => {
+    if (inFlight.current) return inFlight.current;
+
+    const serialized = JSON.stringify(payload);
+    if (key.current?.payload !== serialized) {
+      key.current = { payload: serialized, key: createIdempotencyKey() };
+    }
+
+    setStatus('submitting');
+    const request = submitWithRetry(adapter, payload, key.current.key, options)
+      .then((result) => {
+        setOutcome(result);
+        setStatus(result.ok ? 'success' : 'failure');
+        return result;
+      })
+      .finally(() => {
+        inFlight.current = undefined;
+      });
+    inFlight.current = request;
+    return request;
+  };
+
+  const reset = () => {
+    setStatus('idle');
+    setOutcome(undefined);
+  };
+
+  return {
+    status,
+    outcome,
+    isSubmitting: status === 'submitting',
+    submit,
+    reset,
+  };
+};
@@ -0,0 +1,273 @@
+// Declarative validation rules shared by both React checkout forms.
+//
+// Mirrors Vaporize's `Validation` struct so the React demos stay in step with
+// `CheckoutForm.__validations` in VaporizeComplexForm.zig. Rules are keyed by
+// field name (the camelCase form of the Zig field), not by nested path, just
+// like `__validations`.
+
+import { checkCardNumber, checkCvv } from './cardBrands';
+import { checkExpiry, systemClock, type Clock } from './cardExpiry';
+import { checkPhone } from './phoneNumbers';
+import { checkPostalCode } from './postalCodes';
+import { checkSubdivision } from './subdivisions';
+import { checkPassword } from './passwordStrength';
+import { t } from './i18n';
+
+export type FieldType =
+  | 'string'
+  | 'number'
+  | 'email'
+  | 'password'
+  | 'telephone'
+  // Checked per country here only: Vaporize has no such field types, so the
+  // Zig form declares postal codes and states as `.string`
+  | 'postal_code'
+  | 'subdivision'
+  | 'credit_card'
+  | 'expiry'
+  | 'cvv';
+
+export interface Validation {
+  field_type?: FieldType;
+  min?: number;
+  max?: number;
+  min_value?: number;
+  max_value?: number;
+  // For list fields (`[]const []const u8`), bounds on the number of items
+  min_items?: number;
+  max_items?: number;
+  required?: boolean;
+  // With `match`, the value must equal the value of `target_field`
+  match?: boolean;
+  target_field?: string;
+  // Name of the field whose value the check depends on (e.g. phone -> country)
+  depends_on?: string;
+  // Read instead while `depends_on` is empty or left out, e.g. the billing
+  // country while shipping is the billing address. TypeScript only.
+  depends_on_fallback?: string;
+  // Overrides every message produced by this rule: a message key
+  // (checkoutMessages.ts) or literal text
+  err?: string;
+  placeholder?: string;
+  // Never written to storage, e.g. by draft autosave
+  sensitive?: boolean;
+}
+
+export type ValidationRules = Record<string, Validation>;
+export type FieldValues = Record<string, string | undefined>;
+export type FieldErrors = Record<string, string>;
+// List fields by rule table field name, e.g. the notes
+export type ListValues = Record<string, string[]>;
+
+// Same table as CheckoutForm.__validations
+export const checkoutValidations: ValidationRules = {
+  email: { field_type: 'email' },
+  password: { field_type: 'password', sensitive: true },
+  confirmPassword: { field_type: 'password', target_field: 'password', match: true, sensitive: true },
+  phone: { field_type: 'telephone', depends_on: 'country', depends_on_fallback: 'billingCountry' },
+  method: { field_type: 'string', required: true, err: 'validation.methodRequired' },
+  cardNumber: { field_type: 'credit_card', sensitive: true },
+  expiry: { field_type: 'expiry', placeholder: 'MM/YY' },
+  cvv: { field_type: 'cvv', placeholder: '123', depends_on: 'cardNumber', sensitive: true },
+  paypalEmail: { field_type: 'email' },
+  billingAddress: { field_type: 'string', required: true },
+  billingCountry: { field_type: 'string', required: true },
+  billingCity: { field_type: 'string', required: true },
+  billingState: { field_type: 'subdivision', required: true, depends_on: 'billingCountry' },
+  billingPostalCode: { field_type: 'postal_code', required: true, depends_on: 'billingCountry' },
+  address: { field_type: 'string', required: true },
+  country: { field_type: 'string', required: true },
+  city: { field_type: 'string', required: true },
+  state: { field_type: 'subdivision', required: true, depends_on: 'country' },
+  postalCode: { field_type: 'postal_code', required: true, depends_on: 'country' },
+  notes: { field_type: 'string', required: true, max: 500, max_items: 10, err: 'validation.notesRequired' },
+};
+
+// Format checks per field type. Each returns an error message or undefined.
+// `dependency` is the value the rule depends on (dependencyValue), if any,
+// and `clock` the date checks' "now".
+type TypeCheck = (value: string, dependency: string | undefined, clock: Clock) => string | undefined;
+
+const typeChecks: Record<FieldType, TypeCheck> = {
+  string: () => undefined,
+  number: (value) => (isNaN(Number(value)) ? t('validation.number') : undefined),
+  email: (value) =>
+    /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value) ? undefined : t('validation.email'),
+  password: (value) => checkPassword(value),
+  telephone: (value, country) => checkPhone(value, country),
+  postal_code: (value, country) => checkPostalCode(value, country),
+  subdivision: (value, country) => checkSubdivision(value, country),
+  credit_card: (value) => checkCardNumber(value),
+  expiry: (value, _dependency, clock) => checkExpiry(value, clock),
+  cvv: (value, cardNumber) => checkCvv(value, cardNumber),
+};
+
+// The value a rule's check depends on: its `depends_on` field, else its
+// `depends_on_fallback` field
+export const dependencyValue = (rule: Validation, values: FieldValues): string | undefined => {
+  const value = rule.depends_on ? values[rule.depends_on] : undefined;
+  return value || !rule.depends_on_fallback ? value : values[rule.depends_on_fallback];
+};
+
+// Compares field names across naming styles: cardNumber, cardnumber and
+// card_number are the same field
+export const normalizeFieldName = (name: string) => name.replace(/[_-]/g, '').toLowerCase();
+
+export const isSensitiveField = (name: string, rules: ValidationRules = checkoutValidations) =>
+  rules[name]?.sensitive === true;
+
+// A failed rule: the part of it that failed and the message to show. `rule`
+// is "required", "match", the field type (e.g. "email"), "min", "max",
+// "min_value" or "max_value", or "min_items" or "max_items" for a list, and
+// stays the same when `err` replaces the message.
+export interface RuleFailure {
+  rule: string;
+  message: string;
+}
+
+// Runs a single rule against the current values and reports what failed.
+// `clock` is "now" for the expiry rules, e.g. a fixed date in tests.
+export const checkField = (
+  name: string,
+  values: FieldValues,
+  rules: ValidationRules = checkoutValidations,
+  clock: Clock = systemClock,
+): RuleFailure | undefined => {
+  const rule = rules[name];
+  if (!rule) return undefined;
+
+  const value = values[name] ?? '';
+  const fieldType = rule.field_type ?? 'string';
+  const fail = (failed: string, message: string): RuleFailure => ({
+    rule: failed,
+    message: rule.err ? t(rule.err) : message,
+  });
+
+  if (value === '') {
+    // Untyped strings are optional unless marked required; typed fields need a
+    // value unless explicitly marked `required: false`
+    if (rule.required ?? fieldType !== 'string') return fail('required', t('validation.required'));
+    return undefined;
+  }
+
+  if (rule.match && rule.target_field) {
+    if (value !== (values[rule.target_field] ?? '')) return fail('match', t('validation.passwordsMatch'));
+    return undefined;
+  }
+
+  const typeError = typeChecks[fieldType](value, dependencyValue(rule, values), clock);
+  if (typeError) return fail(fieldType, typeError);
+
+  if (rule.min !== undefined && value.length < rule.min) {
+    return fail('min', t('validation.minLength', { min: rule.min }));
+  }
+  if (rule.max !== undefined && value.length > rule.max) {
+    return fail('max', t('validation.maxLength', { max: rule.max }));
+  }
+  if (rule.min_value !== undefined && Number(value) < rule.min_value) {
+    return fail('min_value', t('validation.minValue', { min: rule.min_value }));
+  }
+  if (rule.max_value !== undefined && Number(value) > rule.max_value) {
+    return fail('max_value', t('validation.maxValue', { max: rule.max_value }));
+  }
+  return undefined;
+};
+
+// Runs a single rule against the current values
+export const validateField = (
+  name: string,
+  values: FieldValues,
+  rules: ValidationRules = checkoutValidations,
+  clock: Clock = systemClock,
+): string | undefined => checkField(name, values, rules, clock)?.message;
+
+// Failures by field name, as errors
+export const messagesOf = (failures: Record<string, RuleFailure>): FieldErrors =>
+  Object.fromEntries(Object.entries(failures).map(([name, { message }]) => [name, message]));
+
+// Runs the rules for `names` that are present in `values`. Fields a form does
+// not render (or has hidden) are simply left out of `values` and skipped.
+export const checkFields = (
+  names: string[],
+  values: FieldValues,
+  rules: ValidationRules = checkoutValidations,
+  clock: Clock = systemClock,
+): Record<string, RuleFailure> => {
+  const failures: Record<string, RuleFailure> = {};
+  for (const name of names) {
+    if (!(name in values)) continue;
+    const failure = checkField(name, values, rules, clock);
+    if (failure) failures[name] = failure;
+  }
+  return failures;
+};
+
+export const validateFields = (
+  names: string[],
+  values: FieldValues,
+  rules: ValidationRules = checkoutValidations,
+  clock: Clock = systemClock,
+): FieldErrors => messagesOf(checkFields(names, values, rules, clock));
+
+// Runs every rule whose field is present in `values`
+export const validateForm = (
+  values: FieldValues,
+  rules: ValidationRules = checkoutValidations,
+  clock: Clock = systemClock,
+): FieldErrors => validateFields(Object.keys(rules), values, rules, clock);
+
+// Runs a list field's rule. `required`, `min_items` and `max_items` apply to
+// the list as a whole, and `err` only replaces the message for an empty
+// list, the way `__validations` has it for the Zig slice. Every item must be
+// filled in and pass the rest of the rule. Failures are keyed by the field
+// name for the list and by field name and index for an item, e.g. "notes.2".
+export const checkList = (
+  name: string,
+  items: string[],
+  values: FieldValues = {},
+  rules: ValidationRules = checkoutValidations,
+): Record<string, RuleFailure> => {
+  const rule = rules[name];
+  if (!rule) return {};
+
+  const failures: Record<string, RuleFailure> = {};
+  if (items.length === 0 && rule.required) {
+    failures[name] = { rule: 'required', message: rule.err ? t(rule.err) : t('validation.required') };
+  } else if (rule.min_items !== undefined && items.length < rule.min_items) {
+    failures[name] = { rule: 'min_items', message: t('validation.minItems', { min: rule.min_items }) };
+  } else if (rule.max_items !== undefined && items.length > rule.max_items) {
+    failures[name] = { rule: 'max_items', message: t('validation.maxItems', { max: rule.max_items }) };
+  }
+
+  const { err: _err, min_items: _min, max_items: _max, ...itemRule } = rule;
+  const itemRules = { [name]: { ...itemRule, required: true } };
+  items.forEach((item, index) => {
+    const failure = checkField(name, { ...values, [name]: item }, itemRules);
+    if (failure) failures[`${name}.${index}`] = failure;
+  });
+  return failures;
+};
+
+export const validateList = (
+  name: string,
+  items: string[],
+  values: FieldValues = {},
+  rules: ValidationRules = checkoutValidations,
+): FieldErrors => messagesOf(checkList(name, items, values, rules));
+
+// Runs the rule of every list in `lists`; `values` supplies `depends_on` fields
+export const checkLists = (
+  lists: ListValues,
+  values: FieldValues = {},
+  rules: ValidationRules = checkoutValidations,
+): Record<string, RuleFailure> =>
+  Object.entries(lists).reduce<Record<string, RuleFailure>>(
+    (failures, [name, items]) => ({ ...failures, ...checkList(name, items, values, rules) }),
+    {},
+  );
+
+export const validateLists = (
+  lists: ListValues,
+  values: FieldValues = {},
+  rules: ValidationRules = checkoutValidations,
+): FieldErrors => messagesOf(checkLists(lists, values, rules));
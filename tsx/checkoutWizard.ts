@@ -0,0 +1,139 @@
+// Multi-step wizard mode for the checkout forms: one step per form section,
+// followed by a review step before submit.
+
+import { useState } from 'react';
+import { t } from './i18n';
+import { isWithin } from './valuePaths';
+
+export type StepId = 'account' | 'payment' | 'shipping' | 'review';
+
+export interface WizardStep {
+  id: StepId;
+  title: string;
+  // Rule table field names validated before leaving the step
+  fields: string[];
+}
+
+export const checkoutSteps: WizardStep[] = [
+  { id: 'account', title: 'Account', fields: ['email', 'password', 'confirmPassword', 'notes'] },
+  {
+    id: 'payment',
+    title: 'Payment',
+    fields: [
+      'method',
+      'expiry',
+      'cvv',
+      'cardNumber',
+      'paypalEmail',
+      'billingAddress',
+      'billingCountry',
+      'billingState',
+      'billingCity',
+      'billingPostalCode',
+    ],
+  },
+  // The phone is checked against the shipping country, or the billing one, so
+  // it is asked for once both are known
+  {
+    id: 'shipping',
+    title: 'Shipping',
+    fields: ['address', 'country', 'state', 'city', 'postalCode', 'phone'],
+  },
+  { id: 'review', title: 'Review', fields: [] },
+];
+
+// The step a field belongs to, so a failed final submit can jump back to it.
+// A list's items ("notes.2") belong to the list's step.
+export const stepIndexOf = (field: string, steps: WizardStep[] = checkoutSteps): number =>
+  steps.findIndex((step) => step.fields.some((name) => isWithin(field, name)));
+
+export const useWizard = (steps: WizardStep[] = checkoutSteps) => {
+  const [index, setIndex] = useState(0);
+
+  // Only moves forward once `validate` accepts the current step
+  const next = async (validate: (step: WizardStep) => boolean | Promise<boolean>) => {
+    if (await validate(steps[index])) {
+      setIndex((current) => Math.min(current + 1, steps.length - 1));
+    }
+  };
+
+  const back = () => setIndex((current) => Math.max(current - 1, 0));
+
+  // Jumping is only allowed backwards; later steps are reached through `next`
+  const goTo = (target: number) => {
+    if (target >= 0 && target < index) setIndex(target);
+  };
+
+  return {
+    steps,
+    index,
+    step: steps[index],
+    isFirst: index === 0,
+    isLast: index === steps.length - 1,
+    next,
+    back,
+    goTo,
+  };
+};
+
+export interface ReviewRow {
+  label: string;
+  value: string;
+}
+
+export interface ReviewSection {
+  title: string;
+  rows: ReviewRow[];
+}
+
+// Fields shown on the review step; passwords and the CVV are left out
+const reviewFields = new Set([
+  'email',
+  'phone',
+  'notes',
+  'method',
+  'cardNumber',
+  'expiry',
+  'paypalEmail',
+  'billingAddress',
+  'billingCountry',
+  'billingState',
+  'billingCity',
+  'billingPostalCode',
+  'address',
+  'country',
+  'state',
+  'city',
+  'postalCode',
+]);
+
+// A field's label in the active locale, by rule table field name
+export const fieldLabel = (field: string): string => t(`label.${field}`);
+
+// A step's title in the active locale
+export const stepTitle = (step: WizardStep): string => t(`section.${step.id}`);
+
+// Passwords and the CVV are never echoed back; the card shows its last four
+// digits and a list its items, comma separated
+const reviewValue = (field: string, value: string | string[]): string => {
+  if (Array.isArray(value)) return value.join(', ');
+  return field === 'cardNumber' ? `•••• ${value.replace(/\D/g, '').slice(-4)}` : value;
+};
+
+// Rows for the review step, grouped by step. Fields missing from `values`
+// (hidden or not rendered by the form) and empty lists are left out.
+export const reviewSections = (
+  values: Record<string, string | string[] | undefined>,
+  steps: WizardStep[] = checkoutSteps,
+): ReviewSection[] =>
+  steps
+    .map((step) => ({
+      title: stepTitle(step),
+      rows: step.fields
+        .filter((field) => reviewFields.has(field) && values[field]?.length)
+        .map((field) => ({
+          label: fieldLabel(field),
+          value: reviewValue(field, values[field] ?? ''),
+        })),
+    }))
+    .filter((section) => section.rows.length > 0);
@@ -0,0 +1,11 @@
+// The countries both checkout forms ship to: the values of their country
+// selects, and the keys of every per-country table (phone numbers, postal
+// codes, states, shipping rates and taxes).
+
+export const countryCodes = ['us', 'ca', 'uk', 'au', 'de', 'fr', 'jp'] as const;
+
+export type CountryCode = (typeof countryCodes)[number];
+
+// Narrows a field value (a select's, or anything typed) for table lookups
+export const isCountryCode = (value: string | undefined): value is CountryCode =>
+  (countryCodes as readonly (string | undefined)[]).includes(value);
@@ -0,0 +1,25 @@
+// Accessible error wiring shared by the checkout forms: every field points at
+// its error message through aria attributes, and focus can be sent to the
+// first invalid field on the page.
+
+// Id of the element holding the error message of the field with id `id`
+export const errorIdFor = (id: string) => `${id}-error`;
+
+// Attributes for the control itself (input, select, select trigger)
+export const ariaFor = (id: string, error?: string) => ({
+  'aria-invalid': error ? true : undefined,
+  'aria-describedby': error ? errorIdFor(id) : undefined,
+});
+
+// Focuses whichever of the fields comes first in the document. Fields that
+// are not rendered (hidden, or on another wizard step) are skipped.
+export const focusFirstField = (ids: string[]): boolean => {
+  const [first] = ids
+    .map((id) => document.getElementById(id))
+    .filter((element): element is HTMLElement => element !== null)
+    .sort((a, b) => (a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1));
+  if (!first) return false;
+  first.focus();
+  first.scrollIntoView?.({ block: 'center', behavior: 'smooth' });
+  return true;
+};
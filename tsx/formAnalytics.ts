@@ -0,0 +1,278 @@
+// Analytics for the checkout forms, to see where users abandon checkout: a
+// typed stream of events (focus and blur with dwell time, validation failures
+// by rule, corrections, completed sections, submit attempts, abandonment)
+// sent to pluggable sinks. Events carry value paths and rule identifiers
+// (the part of a rule that failed, such as "email" or "required") but never
+// values, not even in part, so no sink can leak what the user typed.
+
+import { useEffect, useRef } from 'react';
+import { checkoutSteps, type WizardStep } from './checkoutWizard';
+import { shallowEqual } from './formStore';
+import type { CheckoutFormStore, FormView } from './useCheckoutForm';
+import { isWithin } from './valuePaths';
+
+// What happened, without the form or the time
+export type FormAnalyticsPayload =
+  | { type: 'fieldFocus'; path: string }
+  | { type: 'fieldBlur'; path: string; dwellMs: number }
+  // A field started showing an error, or one from another rule. `rule` is
+  // what failed, as in FormView['errorRules'], e.g. "max" or "server"
+  | { type: 'validationFailed'; path: string; rule: string }
+  // A shown error went away because the user fixed the field
+  | { type: 'fieldCorrected'; path: string; rule: string }
+  // Every visible field of a wizard step passes, the first time it does
+  | { type: 'sectionCompleted'; section: string }
+  | { type: 'submitAttempted'; attempt: number; valid: boolean; invalidPaths: string[] }
+  | { type: 'submitSucceeded'; attempts: number }
+  // The page went away with changes that were never submitted
+  | { type: 'abandoned'; lastPath?: string; completedSections: string[]; submitAttempts: number };
+
+export type FormAnalyticsEvent = FormAnalyticsPayload & {
+  // Which form, e.g. "checkout-modern"
+  form: string;
+  // Epoch ms
+  at: number;
+};
+
+export interface AnalyticsSink {
+  send: (event: FormAnalyticsEvent) => void;
+  // Sends whatever is held back, e.g. before the page goes away
+  flush?: () => void;
+}
+
+export interface FormAnalytics {
+  track: (payload: FormAnalyticsPayload) => void;
+  flush: () => void;
+  // The clock events are stamped with, in epoch ms
+  now: () => number;
+}
+
+export const createFormAnalytics = (
+  form: string,
+  sinks: AnalyticsSink[],
+  clock: () => number = Date.now,
+): FormAnalytics => ({
+  track: (payload) => {
+    const event: FormAnalyticsEvent = { ...payload, form, at: clock() };
+    sinks.forEach((sink) => sink.send(event));
+  },
+  flush: () => sinks.forEach((sink) => sink.flush?.()),
+  now: clock,
+});
+
+// Logs every event, for development
+export const createConsoleSink = (
+  log: (...data: unknown[]) => void = console.info,
+): AnalyticsSink => ({
+  send: (event) => log('[form analytics]', event.type, event),
+});
+
+// Keeps every event in memory, e.g. for tests
+export const createBufferSink = () => {
+  const events: FormAnalyticsEvent[] = [];
+  return {
+    events,
+    send: (event: FormAnalyticsEvent) => {
+      events.push(event);
+    },
+    clear: () => {
+      events.length = 0;
+    },
+  };
+};
+
+export interface BeaconSinkOptions {
+  // Sent as soon as this many events are waiting
+  batchSize?: number;
+  // Otherwise sent this long after the first one (ms)
+  interval?: number;
+  // Gets each batch that could not be sent: without sendBeacon, or when the
+  // browser refused it (its queue is full, or the batch too large)
+  onDropped?: (events: FormAnalyticsEvent[]) => void;
+}
+
+const DEFAULT_BATCH_SIZE = 20;
+const DEFAULT_INTERVAL = 10000;
+
+// Posts events to `url` in JSON batches with navigator.sendBeacon, which
+// still delivers while the page unloads. Analytics are best-effort: a batch
+// that cannot be sent is dropped, and handed to `onDropped` if given.
+export const createBeaconSink = (
+  url: string,
+  { batchSize = DEFAULT_BATCH_SIZE, interval = DEFAULT_INTERVAL, onDropped }: BeaconSinkOptions = {},
+): AnalyticsSink => {
+  let batch: FormAnalyticsEvent[] = [];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const flush = () => {
+    clearTimeout(timer);
+    timer = undefined;
+    if (batch.length === 0) return;
+    const events = batch;
+    batch = [];
+    const body = new Blob([JSON.stringify(events)], { type: 'application/json' });
+    const sent = typeof navigator !== 'undefined' && navigator.sendBeacon?.(url, body) === true;
+    if (!sent) onDropped?.(events);
+  };
+
+  return {
+    send: (event) => {
+      batch.push(event);
+      if (batch.length >= batchSize) flush();
+      else timer ??= setTimeout(flush, interval);
+    },
+    flush,
+  };
+};
+
+export interface FormAnalyticsOptions {
+  // Sections for `sectionCompleted`, by rule table field name
+  steps?: WizardStep[];
+}
+
+// The rule behind each error shown on the form, by value path
+const shownRules = <T extends object>(form: CheckoutFormStore<T>, view: FormView<T>) => {
+  const rules: Record<string, string> = {};
+  for (const path of Object.keys(view.validated)) {
+    const rule = form.ruleFor(path, view);
+    if (rule) rules[path] = rule;
+  }
+  return rules;
+};
+
+// Tracks `form` into `analytics`: put `ref` on the <form> element, whose
+// inputs have their value paths as ids, and call `complete` after a
+// successful submit. Without `analytics` nothing is tracked.
+export const useFormAnalytics = <T extends object>(
+  form: CheckoutFormStore<T>,
+  analytics: FormAnalytics | undefined,
+  { steps = checkoutSteps }: FormAnalyticsOptions = {},
+) => {
+  const ref = useRef<HTMLFormElement>(null);
+  const completed = useRef(false);
+
+  useEffect(() => {
+    if (!analytics) return;
+    const sections = steps
+      .map((step) => ({
+        id: step.id,
+        paths: step.fields.map((field) => form.pathOf(field)).filter((path): path is string => !!path),
+      }))
+      .filter((section) => section.paths.length > 0);
+    const isFieldPath = (id: string) =>
+      sections.some((section) => section.paths.some((path) => isWithin(id, path)));
+
+    // Focus and blur, with how long the field had focus
+    const focusedAt = new Map<string, number>();
+    let lastPath: string | undefined;
+    const onFocusIn = (e: FocusEvent) => {
+      const path = e.target instanceof HTMLElement ? e.target.id : '';
+      if (!isFieldPath(path)) return;
+      focusedAt.set(path, analytics.now());
+      lastPath = path;
+      analytics.track({ type: 'fieldFocus', path });
+    };
+    const onFocusOut = (e: FocusEvent) => {
+      const path = e.target instanceof HTMLElement ? e.target.id : '';
+      const since = focusedAt.get(path);
+      if (since === undefined) return;
+      focusedAt.delete(path);
+      analytics.track({ type: 'fieldBlur', path, dwellMs: analytics.now() - since });
+    };
+    const element = ref.current;
+    element?.addEventListener('focusin', onFocusIn);
+    element?.addEventListener('focusout', onFocusOut);
+
+    // Failures and corrections, as the shown errors change
+    let shown = shownRules(form, form.view());
+    const stopErrors = form.watch(
+      (view) => shownRules(form, view),
+      (current) => {
+        const { validated } = form.getState();
+        for (const [path, rule] of Object.entries(current)) {
+          if (shown[path] !== rule) analytics.track({ type: 'validationFailed', path, rule });
+        }
+        for (const [path, rule] of Object.entries(shown)) {
+          // A reset or a hidden field takes errors away too; that is no correction
+          if (!(path in current) && path in validated) {
+            analytics.track({ type: 'fieldCorrected', path, rule });
+          }
+        }
+        shown = current;
+      },
+      shallowEqual,
+    );
+
+    // A section is complete once something in it has changed and none of its
+    // visible fields has an error
+    const completedSections = new Set<string>();
+    const isComplete = (view: FormView<T>, paths: string[]) => {
+      const visible = paths.filter((path) => view.isVisible(path));
+      return (
+        visible.some((path) => view.dirty[path]) &&
+        !Object.keys(view.errors).some((key) => visible.some((path) => isWithin(key, path)))
+      );
+    };
+    const stopSections = form.watch(
+      (view) => sections.filter((section) => isComplete(view, section.paths)).map((section) => section.id),
+      (complete) =>
+        complete
+          .filter((id) => !completedSections.has(id))
+          .forEach((section) => {
+            completedSections.add(section);
+            analytics.track({ type: 'sectionCompleted', section });
+          }),
+      shallowEqual,
+    );
+
+    const stopSubmits = form.watch(
+      (view) => view.submitCount,
+      (attempt) => {
+        const invalidPaths = Object.keys(form.view().errors);
+        analytics.track({
+          type: 'submitAttempted',
+          attempt,
+          valid: invalidPaths.length === 0,
+          invalidPaths,
+        });
+      },
+    );
+
+    // pagehide also fires where unload does not (mobile, the back-forward cache)
+    const onPageHide = () => {
+      const { isDirty, submitCount } = form.view();
+      if (isDirty && !completed.current) {
+        analytics.track({
+          type: 'abandoned',
+          lastPath,
+          completedSections: [...completedSections],
+          submitAttempts: submitCount,
+        });
+      }
+      analytics.flush();
+    };
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') analytics.flush();
+    };
+    window.addEventListener('pagehide', onPageHide);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+
+    return () => {
+      element?.removeEventListener('focusin', onFocusIn);
+      element?.removeEventListener('focusout', onFocusOut);
+      stopErrors();
+      stopSections();
+      stopSubmits();
+      window.removeEventListener('pagehide', onPageHide);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+    };
+  }, [form, analytics]);
+
+  return {
+    ref,
+    complete: () => {
+      completed.current = true;
+      analytics?.track({ type: 'submitSucceeded', attempts: form.getState().submitCount });
+    },
+  };
+};
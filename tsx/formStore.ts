@@ -0,0 +1,68 @@
+// A minimal external store, for state that many components read but each
+// only a small part of. Components subscribe through useStoreSelector to the
+// slice they render and re-render only when that slice changes, the way
+// useLocale follows the active locale (i18n.ts).
+
+import { useRef, useSyncExternalStore } from 'react';
+
+export type Listener = () => void;
+
+// Anything that can be read and subscribed to, e.g. a store or the checkout form
+export interface Subscribable<S> {
+  getState: () => S;
+  subscribe: (listener: Listener) => () => void;
+}
+
+export interface Store<S> extends Subscribable<S> {
+  // Listeners are only called when the state actually changes
+  setState: (update: S | ((previous: S) => S)) => void;
+}
+
+export const createStore = <S>(initial: S): Store<S> => {
+  let state = initial;
+  const listeners = new Set<Listener>();
+  return {
+    getState: () => state,
+    setState: (update) => {
+      const next = typeof update === 'function' ? (update as (previous: S) => S)(state) : update;
+      if (Object.is(next, state)) return;
+      state = next;
+      listeners.forEach((listener) => listener());
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
+
+// Same keys with the same values (Object.is), one level deep
+export const shallowEqual = <T>(a: T, b: T): boolean => {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  const keysA = Object.keys(a) as (keyof T)[];
+  return (
+    keysA.length === Object.keys(b).length &&
+    keysA.every((key) => Object.prototype.hasOwnProperty.call(b, key) && Object.is(a[key], b[key]))
+  );
+};
+
+// The part of the state `select` picks. The previous result is kept while
+// `isEqual` holds, so selecting a fresh object with the same contents (a
+// field binding) does not re-render.
+export const useStoreSelector = <S, R>(
+  store: Subscribable<S>,
+  select: (state: S) => R,
+  isEqual: (a: R, b: R) => boolean = Object.is,
+): R => {
+  const last = useRef<{ selected: R }>();
+  const getSnapshot = () => {
+    const selected = select(store.getState());
+    if (last.current && isEqual(last.current.selected, selected)) return last.current.selected;
+    last.current = { selected };
+    return selected;
+  };
+  return useSyncExternalStore(store.subscribe, getSnapshot, getSnapshot);
+};
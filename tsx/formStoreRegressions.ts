@@ -0,0 +1,53 @@
+// Regression cases for the headless form store, run with the conformance
+// corpus (runConformance.ts). Each case edits the classic form's checkout
+// data the way a user would and compares one value afterwards.
+
+import { createCheckoutForm } from './useCheckoutForm';
+import { checkoutConditions, defaultValues, fieldPaths, type CheckoutFormData } from './checkoutSchema';
+import type { ConformanceFailure } from './validationConformance';
+import { getPath } from './valuePaths';
+
+interface StoreCase {
+  name: string;
+  // Values set in order, by value path
+  steps: [string, unknown][];
+  path: string;
+  expected: unknown;
+}
+
+const storeCases: StoreCase[] = [
+  {
+    // `shipping` is reset: 'keep', and showing it again is no country change
+    name: 'shipping same as billing on and off keeps the state',
+    steps: [
+      ['shipping.country', 'us'],
+      ['shipping.state', 'CA'],
+      ['shippingdetails.shippingsameasbilling', true],
+      ['shippingdetails.shippingsameasbilling', false],
+    ],
+    path: 'shipping.state',
+    expected: 'CA',
+  },
+  {
+    name: 'another country clears the state',
+    steps: [
+      ['shipping.country', 'us'],
+      ['shipping.state', 'WA'],
+      ['shipping.country', 'au'],
+    ],
+    path: 'shipping.state',
+    expected: '',
+  },
+];
+
+export const runStoreRegressions = (): ConformanceFailure[] =>
+  storeCases.flatMap(({ name, steps, path, expected }) => {
+    const form = createCheckoutForm<CheckoutFormData>(
+      defaultValues,
+      () => ({ initialValues: defaultValues, paths: fieldPaths, conditions: checkoutConditions }),
+      () => {},
+    );
+    steps.forEach(([stepPath, value]) => form.setValue(stepPath, value));
+    const actual = getPath(form.getValues(), path);
+    return actual === expected ? [] : [{ target: 'form store', name, expected, actual }];
+  });
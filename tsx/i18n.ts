@@ -0,0 +1,102 @@
+// Runtime locale for the checkout forms. The active locale lives outside React
+// so the rule engine, the type checks and zod's error map can translate
+// without having it passed in; components re-render on a switch through
+// useLocale().
+
+import { useSyncExternalStore } from 'react';
+import { z } from 'zod';
+import { de, en, fr, nl, type MessageKey, type Messages } from './checkoutMessages';
+
+export const catalogs = { en, nl, de, fr } satisfies Record<string, Messages>;
+
+export type Locale = keyof typeof catalogs;
+
+export const locales = Object.keys(catalogs) as Locale[];
+
+// Each language in its own name, for a locale picker
+export const localeNames: Record<Locale, string> = {
+  en: 'English',
+  nl: 'Nederlands',
+  de: 'Deutsch',
+  fr: 'Français',
+};
+
+export type MessageParams = Record<string, string | number>;
+
+let activeLocale: Locale = 'en';
+const listeners = new Set<() => void>();
+
+export const getLocale = (): Locale => activeLocale;
+
+export const setLocale = (locale: Locale) => {
+  if (locale === activeLocale) return;
+  activeLocale = locale;
+  listeners.forEach((listener) => listener());
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Looks up `key` and fills in its `{name}` placeholders. Keys missing from
+// the locale fall back to English; anything that is not a key at all comes
+// back as is, so a rule's `err` may hold either a key or literal text.
+export const t = (
+  key: MessageKey | (string & {}),
+  params: MessageParams = {},
+  locale: Locale = activeLocale,
+): string => {
+  const template =
+    (catalogs[locale] as Record<string, string>)[key] ?? (en as Record<string, string>)[key] ?? key;
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder,
+  );
+};
+
+export const useLocale = () => {
+  const locale = useSyncExternalStore(subscribe, getLocale, getLocale);
+  return { locale, setLocale };
+};
+
+// zod's built-in issues in the active locale. Issues raised with their own
+// message (the rule engine's, via superRefine) are already translated.
+export const checkoutErrorMap: z.ZodErrorMap = (issue, ctx) => {
+  switch (issue.code) {
+    case z.ZodIssueCode.invalid_type:
+      return {
+        message:
+          issue.received === z.ZodParsedType.undefined
+            ? t('validation.required')
+            : t('validation.invalid'),
+      };
+    case z.ZodIssueCode.too_small:
+      if (issue.type !== 'string') {
+        return { message: t('validation.minValue', { min: Number(issue.minimum) }) };
+      }
+      return {
+        message:
+          Number(issue.minimum) === 1
+            ? t('validation.required')
+            : t('validation.minLength', { min: Number(issue.minimum) }),
+      };
+    case z.ZodIssueCode.too_big:
+      return {
+        message:
+          issue.type === 'string'
+            ? t('validation.maxLength', { max: Number(issue.maximum) })
+            : t('validation.maxValue', { max: Number(issue.maximum) }),
+      };
+    case z.ZodIssueCode.invalid_string:
+      return {
+        message: issue.validation === 'email' ? t('validation.email') : t('validation.invalid'),
+      };
+    case z.ZodIssueCode.invalid_enum_value:
+    case z.ZodIssueCode.invalid_union_discriminator:
+      return { message: t('validation.option') };
+    default:
+      return { message: ctx.defaultError };
+  }
+};
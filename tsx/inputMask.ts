@@ -0,0 +1,159 @@
+// Input masks driven by pattern strings such as "#### #### #### ####" or
+// "##/##". The raw value is just the characters filling the pattern's slots;
+// the display value lays them out with the pattern's literals in between.
+// Edits are masked as they are typed without moving the caret away from the
+// characters it was next to, backspace steps over literals, and pasted text
+// is normalised before it is laid out.
+
+import { useLayoutEffect, useRef, type ChangeEvent } from 'react';
+import type { FieldBinding } from './useCheckoutForm';
+
+// Slots: # digit, A letter, * either; anything else is a literal, e.g. the
+// trunk prefix 0 in "0# ## ## ## ##"
+const slotTests: Record<string, RegExp> = { '#': /\d/, A: /[A-Z]/, '*': /[A-Z\d]/ };
+
+const isSlot = (char: string | undefined) => char !== undefined && char in slotTests;
+
+// A pattern, or one picked by the value typed so far (a card number's
+// grouping follows its brand), or none for values typed in a form the mask
+// does not cover (a phone number in +international form)
+export type MaskPattern = string | ((value: string) => string | undefined);
+
+export const resolvePattern = (mask: MaskPattern, value: string): string | undefined =>
+  typeof mask === 'string' ? mask : mask(value);
+
+// Full-width and other compatibility forms become plain ASCII, letters upper case
+const normalize = (value: string) => value.normalize('NFKC').toUpperCase();
+
+// The characters that fill the pattern's slots, in order. Anything that does
+// not fit the next slot (separators, stray letters in a number) is skipped, a
+// letter or digit literal is skipped where the value has it too, and
+// whatever is left once the slots are full is dropped.
+export const unmask = (value: string, pattern: string): string => {
+  const chars = normalize(value).replace(/[^A-Z\d]/g, '');
+  let raw = '';
+  let next = 0;
+  for (const slot of pattern) {
+    const test = slotTests[slot];
+    if (!test) {
+      if (chars[next] === slot) next++;
+      continue;
+    }
+    while (next < chars.length && !test.test(chars[next])) next++;
+    if (next >= chars.length) break;
+    raw += chars[next++];
+  }
+  return raw;
+};
+
+// Lays raw characters out in the pattern. A literal is only written once a
+// slot after it is filled, so the value never ends in a separator.
+const layOut = (raw: string, pattern: string): string => {
+  let display = '';
+  let literals = '';
+  let next = 0;
+  for (const slot of pattern) {
+    if (next >= raw.length) break;
+    if (!isSlot(slot)) {
+      literals += slot;
+      continue;
+    }
+    display += literals + raw[next++];
+    literals = '';
+  }
+  return display;
+};
+
+// Masks any value: its slot characters, laid out in the pattern
+export const maskValue = (value: string, pattern: string): string =>
+  layOut(unmask(value, pattern), pattern);
+
+// Index in `display` just past its `count`th slot character
+const caretAfter = (display: string, pattern: string, count: number): number => {
+  if (count === 0) return 0;
+  let seen = 0;
+  for (let index = 0; index < display.length; index++) {
+    if (isSlot(pattern[index]) && ++seen === count) return index + 1;
+  }
+  return display.length;
+};
+
+export interface MaskedEdit {
+  raw: string;
+  display: string;
+  // Where the caret goes in `display`
+  caret: number;
+}
+
+export type DeleteDirection = 'backward' | 'forward';
+
+// Masks the input's value after an edit. `previous` is the display value
+// before it and `caret` where the browser left the caret. The caret stays
+// after the same raw characters it followed. When the edit only removed a
+// literal, which masking would put straight back, the slot character next to
+// it goes instead: the one before the caret for backspace, after it for delete.
+export const maskEdit = (
+  pattern: string,
+  previous: string,
+  value: string,
+  caret: number,
+  direction: DeleteDirection = 'backward',
+): MaskedEdit => {
+  let raw = unmask(value, pattern);
+  let before = unmask(value.slice(0, caret), pattern).length;
+
+  if (value.length < previous.length && raw === unmask(previous, pattern)) {
+    if (direction === 'forward') {
+      raw = raw.slice(0, before) + raw.slice(before + 1);
+    } else if (before > 0) {
+      raw = raw.slice(0, before - 1) + raw.slice(before);
+      before -= 1;
+    }
+  }
+
+  const display = layOut(raw, pattern);
+  return { raw: unmask(display, pattern), display, caret: caretAfter(display, pattern, before) };
+};
+
+type MaskedBinding = Pick<FieldBinding, 'value' | 'onChange' | 'mask'>;
+
+// Wires a field binding's mask to an input: pass `ref` and `onChange` to the
+// element. The field keeps the display value; `raw` is the value without the
+// literals. Fields without a mask, or values it has no pattern for, are
+// passed through as they are.
+export const useMaskedInput = ({ value, onChange, mask }: MaskedBinding) => {
+  const ref = useRef<HTMLInputElement>(null);
+  // Caret position to restore once the masked value is rendered
+  const caret = useRef<number>();
+
+  useLayoutEffect(() => {
+    const input = ref.current;
+    if (caret.current === undefined || !input) return;
+    if (input === document.activeElement) input.setSelectionRange(caret.current, caret.current);
+    caret.current = undefined;
+  });
+
+  if (!mask) return { ref, raw: value, onChange };
+
+  const handleChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const input = e.target;
+    const pattern = resolvePattern(mask, input.value);
+    if (!pattern) {
+      onChange(input.value);
+      return;
+    }
+    const { inputType } = e.nativeEvent as InputEvent;
+    const edit = maskEdit(
+      pattern,
+      value,
+      input.value,
+      input.selectionStart ?? input.value.length,
+      inputType === 'deleteContentForward' ? 'forward' : 'backward',
+    );
+    caret.current = edit.caret;
+    onChange(edit.display);
+  };
+
+  const pattern = resolvePattern(mask, value);
+  return { ref, raw: pattern ? unmask(value, pattern) : value, onChange: handleChange };
+};
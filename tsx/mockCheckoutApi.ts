@@ -0,0 +1,104 @@
+// Local stand-in for the checkout API, shaped like window.fetch so it can be
+// handed to anything that takes a `Fetcher`. Lets the async validators and
+// order submission be exercised offline, with configurable latency to show
+// debounce, cancellation and retries at work.
+
+import type { Fetcher } from './asyncValidation';
+import { normalizeFieldName } from './checkoutValidation';
+import { wait } from './wait';
+
+export interface MockCheckoutApiOptions {
+  // Simulated round trip (ms)
+  latency?: number;
+  registeredEmails?: string[];
+  // Postal codes per country that the lookup reports as nonexistent
+  unknownPostalCodes?: Record<string, string[]>;
+  // Card numbers the order endpoint declines
+  declinedCards?: string[];
+  // How many order requests fail with 503 before the endpoint recovers
+  transientFailures?: number;
+}
+
+const json = (body: unknown, status = 200): Response =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+// Finds a field at any depth by name, so flat and nested payloads both work
+const findField = (body: unknown, name: string): unknown => {
+  if (typeof body !== 'object' || body === null) return undefined;
+  for (const [key, value] of Object.entries(body)) {
+    if (normalizeFieldName(key) === normalizeFieldName(name)) return value;
+    const found = findField(value, name);
+    if (found !== undefined) return found;
+  }
+  return undefined;
+};
+
+export const createMockCheckoutApi = ({
+  latency = 600,
+  registeredEmails = ['taken@example.com'],
+  unknownPostalCodes = { us: ['00000'], uk: ['ZZ1 1ZZ'], ca: ['Z9Z 9Z9'], de: ['00000'], fr: ['00000'] },
+  declinedCards = ['4000000000000002'],
+  transientFailures = 0,
+}: MockCheckoutApiOptions = {}): Fetcher => {
+  const registered = new Set(registeredEmails.map((email) => email.toLowerCase()));
+  const declined = new Set(declinedCards.map((card) => card.replace(/\D/g, '')));
+  // Idempotency key -> order id, so a repeated request places no second order
+  const orders = new Map<string, string>();
+  let failuresLeft = transientFailures;
+
+  return async (input, init) => {
+    await wait(latency, init?.signal);
+    const url = new URL(input, 'http://localhost');
+
+    switch (url.pathname) {
+      case '/api/checkout/email-available': {
+        const email = (url.searchParams.get('email') ?? '').toLowerCase();
+        return json({ available: !registered.has(email) });
+      }
+      case '/api/checkout/postal-code': {
+        const country = url.searchParams.get('country') ?? '';
+        const code = (url.searchParams.get('code') ?? '').toUpperCase();
+        return json({ exists: !(unknownPostalCodes[country] ?? []).includes(code) });
+      }
+      case '/api/checkout/orders': {
+        const key = new Headers(init?.headers).get('Idempotency-Key');
+        if (!key) return json({ message: 'Missing Idempotency-Key header' }, 400);
+        const existing = orders.get(key);
+        if (existing) return json({ orderId: existing }, 200);
+        if (failuresLeft > 0) {
+          failuresLeft--;
+          return json({ message: 'Service temporarily unavailable' }, 503);
+        }
+
+        const body = JSON.parse(String(init?.body ?? '{}'));
+        const email = String(findField(body, 'email') ?? '').toLowerCase();
+        const card = String(findField(body, 'cardNumber') ?? '').replace(/\D/g, '');
+        // Keyed the way a snake_case backend would; the client maps them back
+        if (registered.has(email)) {
+          return json(
+            {
+              message: 'Please correct the highlighted fields',
+              errors: { email: 'An account with this email already exists' },
+            },
+            422,
+          );
+        }
+        if (declined.has(card)) {
+          return json(
+            { message: 'Your card was declined', errors: { card_number: 'Your card was declined' } },
+            422,
+          );
+        }
+
+        const orderId = `ord_${(orders.size + 1).toString().padStart(6, '0')}`;
+        orders.set(key, orderId);
+        return json({ orderId }, 201);
+      }
+      default:
+        return json({ error: 'Not found' }, 404);
+    }
+  };
+};
@@ -0,0 +1,121 @@
+// What is being bought and what it costs: line items, shipping by destination
+// country, tax per country and the total. Amounts are integers in minor units
+// (cents) so sums never pick up floating point noise; they become money only
+// when formatted.
+
+import type { MessageKey } from './checkoutMessages';
+import { getLocale, type Locale } from './i18n';
+import { isCountryCode, type CountryCode } from './countries';
+
+// Same as `Currency` in VaporizeComplexForm.zig
+export type Currency = 'usd' | 'eur';
+
+export const currencies: Currency[] = ['usd', 'eur'];
+
+export type Prices = Record<Currency, number>;
+
+export interface LineItem {
+  id: string;
+  // Message key or literal text
+  name: MessageKey | (string & {});
+  quantity: number;
+  unitPrice: Prices;
+}
+
+export interface TaxRule {
+  rate: number;
+  // Whether shipping is taxed too, as with VAT
+  onShipping: boolean;
+}
+
+// The cart both demo forms sell
+export const demoCart: LineItem[] = [
+  { id: 'toolbox', name: 'item.toolbox', quantity: 1, unitPrice: { usd: 4900, eur: 4500 } },
+  { id: 'seat', name: 'item.seat', quantity: 2, unitPrice: { usd: 1200, eur: 1100 } },
+];
+
+export const shippingRates: Record<CountryCode, Prices> = {
+  us: { usd: 800, eur: 750 },
+  ca: { usd: 1500, eur: 1400 },
+  uk: { usd: 1200, eur: 1100 },
+  au: { usd: 2500, eur: 2300 },
+  de: { usd: 900, eur: 800 },
+  fr: { usd: 900, eur: 800 },
+  jp: { usd: 2200, eur: 2000 },
+};
+
+// Countries without their own rate
+export const defaultShippingRate: Prices = { usd: 3000, eur: 2800 };
+
+// Sales tax in the US depends on the state, so none is added here; VAT and
+// GST countries tax the shipping as well
+export const taxRules: Record<CountryCode, TaxRule> = {
+  us: { rate: 0, onShipping: false },
+  ca: { rate: 0.05, onShipping: true },
+  uk: { rate: 0.2, onShipping: true },
+  au: { rate: 0.1, onShipping: true },
+  de: { rate: 0.19, onShipping: true },
+  fr: { rate: 0.2, onShipping: true },
+  jp: { rate: 0.1, onShipping: true },
+};
+
+export interface SummaryLine {
+  id: string;
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  total: number;
+}
+
+export interface OrderSummary {
+  currency: Currency;
+  // Destination the shipping and tax were worked out for, if one is known
+  country?: string;
+  lines: SummaryLine[];
+  subtotal: number;
+  // Undefined until the destination is known
+  shipping?: number;
+  taxRate?: number;
+  tax?: number;
+  total: number;
+}
+
+export const computeOrderSummary = (
+  items: LineItem[],
+  currency: Currency,
+  country?: string,
+): OrderSummary => {
+  const lines = items.map((item) => ({
+    id: item.id,
+    name: item.name,
+    quantity: item.quantity,
+    unitPrice: item.unitPrice[currency],
+    total: item.unitPrice[currency] * item.quantity,
+  }));
+  const subtotal = lines.reduce((sum, line) => sum + line.total, 0);
+  if (!country) return { currency, lines, subtotal, total: subtotal };
+
+  const known = isCountryCode(country);
+  const shipping = (known ? shippingRates[country] : defaultShippingRate)[currency];
+  const { rate, onShipping } = known ? taxRules[country] : { rate: 0, onShipping: false };
+  const tax = Math.round((subtotal + (onShipping ? shipping : 0)) * rate);
+  return {
+    currency,
+    country,
+    lines,
+    subtotal,
+    shipping,
+    taxRate: rate,
+    tax,
+    total: subtotal + shipping + tax,
+  };
+};
+
+// e.g. formatMoney(4900, 'usd') -> "$49.00", or "49,00 $" in German
+export const formatMoney = (amount: number, currency: Currency, locale: Locale = getLocale()) =>
+  new Intl.NumberFormat(locale, { style: 'currency', currency: currency.toUpperCase() }).format(
+    amount / 100,
+  );
+
+export const formatRate = (rate: number, locale: Locale = getLocale()) =>
+  new Intl.NumberFormat(locale, { style: 'percent', maximumFractionDigits: 1 }).format(rate);
@@ -0,0 +1,120 @@
+// Password requirements (the live checklist, also used by the rule engine) and
+// an entropy-based strength estimate.
+
+import type { MessageKey } from './checkoutMessages';
+import { t } from './i18n';
+
+export interface PasswordRequirement {
+  id: 'length' | 'upper' | 'lower' | 'digit';
+  // Message keys of the checklist wording and of the validation message when
+  // unmet; both may use {min}
+  label: MessageKey;
+  message: MessageKey;
+  test: (password: string) => boolean;
+}
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+export const passwordRequirements: PasswordRequirement[] = [
+  {
+    id: 'length',
+    label: 'password.requirement.length',
+    message: 'validation.password.length',
+    test: (password) => password.length >= MIN_PASSWORD_LENGTH,
+  },
+  {
+    id: 'upper',
+    label: 'password.requirement.upper',
+    message: 'validation.password.upper',
+    test: (password) => /[A-Z]/.test(password),
+  },
+  {
+    id: 'lower',
+    label: 'password.requirement.lower',
+    message: 'validation.password.lower',
+    test: (password) => /[a-z]/.test(password),
+  },
+  {
+    id: 'digit',
+    label: 'password.requirement.digit',
+    message: 'validation.password.digit',
+    test: (password) => /\d/.test(password),
+  },
+];
+
+const params = { min: MIN_PASSWORD_LENGTH };
+
+// The checklist, worded in the active locale
+export const checkPasswordRequirements = (password: string) =>
+  passwordRequirements.map((requirement) => ({
+    id: requirement.id,
+    label: t(requirement.label, params),
+    met: requirement.test(password),
+  }));
+
+// First unmet requirement, as a validation message
+export const checkPassword = (password: string): string | undefined => {
+  const unmet = passwordRequirements.find((requirement) => !requirement.test(password));
+  return unmet && t(unmet.message, params);
+};
+
+export type StrengthScore = 0 | 1 | 2 | 3 | 4;
+
+export interface PasswordStrength {
+  score: StrengthScore;
+  // "Too weak" to "Strong", in the active locale
+  label: string;
+  bits: number;
+}
+
+const strengthLabel = (score: StrengthScore) => t(`password.strength.${score}`);
+
+// Entropy thresholds (bits) for scores 1-4
+const SCORE_THRESHOLDS = [28, 36, 60, 80];
+
+const COMMON_PASSWORDS = ['password', 'qwerty', 'letmein', 'welcome', 'admin', 'iloveyou', 'monkey', 'dragon'];
+
+const characterPool = (password: string): number =>
+  (/[a-z]/.test(password) ? 26 : 0) +
+  (/[A-Z]/.test(password) ? 26 : 0) +
+  (/\d/.test(password) ? 10 : 0) +
+  (/[^a-zA-Z\d]/.test(password) ? 33 : 0);
+
+// Characters that add little: repeats of the previous character and steps in
+// a run like "abc" or "321"
+const predictableCount = (password: string): number => {
+  let count = 0;
+  for (let i = 1; i < password.length; i++) {
+    const step = password.charCodeAt(i) - password.charCodeAt(i - 1);
+    if (step === 0 || Math.abs(step) === 1) count++;
+  }
+  return count;
+};
+
+// Pieces of the user's own details worth penalising, e.g. "jane.doe@mail.com"
+// gives "jane.doe", "jane", "doe" and "mail"
+const personalTokens = (email = ''): string[] => {
+  const [local = '', domain = ''] = email.toLowerCase().split('@');
+  const tokens = [local, ...local.split(/[^a-z0-9]+/), domain.split('.')[0]];
+  return tokens.filter((token, i) => token.length >= 3 && tokens.indexOf(token) === i);
+};
+
+// Estimates entropy as length × log2(pool), then takes back the bits of
+// anything an attacker would try first: the user's email, common passwords,
+// repeats and sequences. Unmet requirements cap the score at "Weak".
+export const passwordStrength = (password: string, email?: string): PasswordStrength => {
+  if (!password) return { score: 0, label: strengthLabel(0), bits: 0 };
+
+  const bitsPerChar = Math.log2(Math.max(characterPool(password), 1));
+  const lower = password.toLowerCase();
+
+  let guessable = predictableCount(password);
+  for (const token of [...personalTokens(email), ...COMMON_PASSWORDS]) {
+    if (lower.includes(token)) guessable += token.length;
+  }
+  const bits = Math.max(0, (password.length - Math.min(guessable, password.length)) * bitsPerChar);
+
+  let score = SCORE_THRESHOLDS.filter((threshold) => bits >= threshold).length as StrengthScore;
+  if (checkPassword(password) && score > 1) score = 1;
+  return { score, label: strengthLabel(score), bits: Math.round(bits) };
+};
@@ -0,0 +1,45 @@
+// Payment-method-specific fields. Each method belongs to a kind, and each
+// kind asks for its own fields: card methods take the card number, expiry and
+// CVV, PayPal the account email, and wallets nothing at all (the payment is
+// confirmed on the device after the order is placed).
+
+import type { Conditions } from './checkoutConditions';
+
+export type PaymentKind = 'card' | 'account' | 'wallet';
+
+// Method values of both forms: the classic form's `paymentmethod` enum and
+// the modern form's method select
+export const paymentKinds: Record<string, PaymentKind> = {
+  card: 'card',
+  credit: 'card',
+  debit: 'card',
+  paypal: 'account',
+  apple: 'wallet',
+};
+
+// Rule table field names asked for by each kind
+export const paymentFields: Record<PaymentKind, string[]> = {
+  card: ['cardNumber', 'expiry', 'cvv'],
+  account: ['paypalEmail'],
+  wallet: [],
+};
+
+export const paymentKindOf = (method?: string): PaymentKind | undefined =>
+  method ? paymentKinds[method] : undefined;
+
+// Conditions showing each method-specific field only while a method of its
+// kind is chosen; hidden fields skip validation and are left out of the
+// payload. `paths` maps rule table field names to value paths, for forms
+// whose values are nested.
+export const paymentConditions = <T>(
+  methodOf: (values: T) => string | undefined,
+  paths: Record<string, string> = {},
+): Conditions<T> =>
+  Object.fromEntries(
+    Object.entries(paymentFields).flatMap(([kind, fields]) =>
+      fields.map((field) => [
+        paths[field] ?? field,
+        { visibleWhen: (values: T) => paymentKindOf(methodOf(values)) === kind },
+      ]),
+    ),
+  );
@@ -0,0 +1,124 @@
+// Per-country phone metadata: formatting, validation and E.164 normalisation.
+//
+// Numbers are handled as their national significant number (NSN): the digits
+// left once the country calling code or the national trunk prefix is removed.
+
+import { t } from './i18n';
+import { maskValue, type MaskPattern } from './inputMask';
+import { isCountryCode, type CountryCode } from './countries';
+
+export interface PhoneMetadata {
+  callingCode: string;
+  // Dialled before the NSN when calling nationally ("0" in most of Europe)
+  trunkPrefix?: string;
+  nsnLengths: number[];
+  // Optional stricter shape of the NSN, e.g. NANP area codes never start with 0 or 1
+  nsnPattern?: RegExp;
+  // National display format as an input mask pattern (inputMask.ts): each #
+  // is one NSN digit, and a trunk prefix written nationally is a literal
+  mask: string;
+  example: string;
+}
+
+export const phoneMetadata: Record<CountryCode, PhoneMetadata> = {
+  us: {
+    callingCode: '1',
+    trunkPrefix: '1',
+    nsnLengths: [10],
+    nsnPattern: /^[2-9]\d{2}[2-9]\d{6}$/,
+    mask: '(###) ###-####',
+    example: '(201) 555-0123',
+  },
+  ca: {
+    callingCode: '1',
+    trunkPrefix: '1',
+    nsnLengths: [10],
+    nsnPattern: /^[2-9]\d{2}[2-9]\d{6}$/,
+    mask: '(###) ###-####',
+    example: '(613) 555-0123',
+  },
+  uk: { callingCode: '44', trunkPrefix: '0', nsnLengths: [9, 10], mask: '0#### ######', example: '07400 123456' },
+  au: { callingCode: '61', trunkPrefix: '0', nsnLengths: [9], mask: '0### ### ###', example: '0412 345 678' },
+  de: { callingCode: '49', trunkPrefix: '0', nsnLengths: [10, 11], mask: '0#### #######', example: '01512 3456789' },
+  fr: { callingCode: '33', trunkPrefix: '0', nsnLengths: [9], mask: '0# ## ## ## ##', example: '06 12 34 56 78' },
+  jp: { callingCode: '81', trunkPrefix: '0', nsnLengths: [9, 10], mask: '0##-####-####', example: '090-1234-5678' },
+};
+
+// Undefined until a country is picked
+export const phoneMetadataFor = (country?: string): PhoneMetadata | undefined =>
+  isCountryCode(country) ? phoneMetadata[country] : undefined;
+
+// E.164 caps a full number at 15 digits
+const E164_MAX_DIGITS = 15;
+
+interface ParsedPhone {
+  international: boolean;
+  digits: string;
+  // Undefined when an international number uses another country's calling code
+  nsn?: string;
+}
+
+const parsePhone = (value: string, meta: PhoneMetadata): ParsedPhone => {
+  const digits = value.replace(/\D/g, '');
+  if (value.trim().startsWith('+')) {
+    return {
+      international: true,
+      digits,
+      nsn: digits.startsWith(meta.callingCode) ? digits.slice(meta.callingCode.length) : undefined,
+    };
+  }
+  const { trunkPrefix } = meta;
+  const nsn = trunkPrefix && digits.startsWith(trunkPrefix) ? digits.slice(trunkPrefix.length) : digits;
+  return { international: false, digits, nsn };
+};
+
+// Formats as the user types, following the selected country. Numbers typed
+// with a leading + are kept in international form.
+export const formatPhone = (value: string, country?: string): string => {
+  const meta = phoneMetadataFor(country);
+  const international = value.trim().startsWith('+');
+  if (!meta || international) {
+    const digits = value.replace(/\D/g, '').slice(0, E164_MAX_DIGITS);
+    return international ? `+${digits}` : digits;
+  }
+
+  const { digits, nsn = '' } = parsePhone(value, meta);
+  // Keep a lone trunk prefix visible while the user is still typing it
+  if (!nsn) return digits;
+  return maskValue(nsn, meta.mask);
+};
+
+// Mask for national numbers as they are typed, so the caret stays in place;
+// numbers typed with a leading + are left to formatPhone
+export const phoneMaskFor = (country?: string): MaskPattern | undefined => {
+  const meta = phoneMetadataFor(country);
+  return meta && ((value) => (value.trim().startsWith('+') ? undefined : meta.mask));
+};
+
+export const checkPhone = (value: string, country?: string): string | undefined => {
+  const meta = phoneMetadataFor(country);
+  if (!meta) {
+    const digits = value.replace(/\D/g, '');
+    return value.trim().startsWith('+') && digits.length >= 8 && digits.length <= E164_MAX_DIGITS
+      ? undefined
+      : t('validation.phoneCountry');
+  }
+
+  const { international, nsn } = parsePhone(value, meta);
+  if (international && nsn === undefined) {
+    return t('validation.phoneCallingCode', { code: meta.callingCode });
+  }
+  const valid =
+    nsn !== undefined &&
+    meta.nsnLengths.includes(nsn.length) &&
+    (!meta.nsnPattern || meta.nsnPattern.test(nsn));
+  return valid ? undefined : t('validation.phone', { example: meta.example });
+};
+
+// Normalises to E.164 (+14155550123), or undefined if the number is invalid
+export const toE164 = (value: string, country?: string): string | undefined => {
+  if (checkPhone(value, country)) return undefined;
+  const meta = phoneMetadataFor(country);
+  if (!meta) return `+${value.replace(/\D/g, '')}`;
+  return `+${meta.callingCode}${parsePhone(value, meta).nsn}`;
+};
@@ -0,0 +1,102 @@
+// Per-country postal code formats, keyed by the shipping country.
+
+import type { MessageKey } from './checkoutMessages';
+import { t } from './i18n';
+import { maskValue } from './inputMask';
+import { isCountryCode, type CountryCode } from './countries';
+
+export interface PostalCodeFormat {
+  pattern: RegExp;
+  // Formats raw input as the user types
+  format: (value: string) => string;
+  // Mask pattern (inputMask.ts) behind `format`, for fixed layouts
+  mask?: string;
+  inputMode: 'numeric' | 'text';
+  example: string;
+  // Message key of the validation error
+  error: MessageKey;
+}
+
+// Formats with a fixed layout, typed into a mask
+const masked = (mask: string) => ({ mask, format: (value: string) => maskValue(value, mask) });
+
+// UK postcodes vary in length (outward code of 2-4, inward code of 3), so the
+// space goes in once the last three characters form an inward code
+const formatUkPostcode = (value: string): string => {
+  const chars = value.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, 7);
+  return chars.length >= 5 && /\d[A-Z]{2}$/.test(chars)
+    ? `${chars.slice(0, -3)} ${chars.slice(-3)}`
+    : chars;
+};
+
+export const postalCodeFormats: Record<CountryCode, PostalCodeFormat> = {
+  us: {
+    pattern: /^\d{5}(-\d{4})?$/,
+    ...masked('#####-####'),
+    inputMode: 'numeric',
+    example: '12345',
+    error: 'validation.postalCode.us',
+  },
+  ca: {
+    pattern: /^[ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z] \d[ABCEGHJ-NPRSTV-Z]\d$/,
+    ...masked('A#A #A#'),
+    inputMode: 'text',
+    example: 'K1A 0B1',
+    error: 'validation.postalCode.ca',
+  },
+  uk: {
+    pattern: /^(GIR 0AA|[A-Z]{1,2}\d[A-Z\d]? \d[A-Z]{2})$/,
+    format: formatUkPostcode,
+    inputMode: 'text',
+    example: 'SW1A 1AA',
+    error: 'validation.postalCode.uk',
+  },
+  au: {
+    pattern: /^\d{4}$/,
+    ...masked('####'),
+    inputMode: 'numeric',
+    example: '2000',
+    error: 'validation.postalCode.au',
+  },
+  de: {
+    pattern: /^\d{5}$/,
+    ...masked('#####'),
+    inputMode: 'numeric',
+    example: '10115',
+    error: 'validation.postalCode.de',
+  },
+  fr: {
+    pattern: /^\d{5}$/,
+    ...masked('#####'),
+    inputMode: 'numeric',
+    example: '75001',
+    error: 'validation.postalCode.fr',
+  },
+  jp: {
+    pattern: /^\d{3}-\d{4}$/,
+    ...masked('###-####'),
+    inputMode: 'numeric',
+    example: '100-0001',
+    error: 'validation.postalCode.jp',
+  },
+};
+
+// Used until a country is picked, or for countries without a known format
+export const defaultPostalCodeFormat: PostalCodeFormat = {
+  pattern: /^[A-Z0-9][A-Z0-9 -]{1,8}[A-Z0-9]$/,
+  format: (value) => value.toUpperCase().replace(/[^A-Z0-9 -]/g, '').slice(0, 10),
+  inputMode: 'text',
+  example: '',
+  error: 'validation.postalCode',
+};
+
+export const postalCodeFormatFor = (country?: string): PostalCodeFormat =>
+  isCountryCode(country) ? postalCodeFormats[country] : defaultPostalCodeFormat;
+
+export const formatPostalCode = (value: string, country?: string): string =>
+  postalCodeFormatFor(country).format(value);
+
+export const checkPostalCode = (value: string, country?: string): string | undefined => {
+  const { pattern, error } = postalCodeFormatFor(country);
+  return pattern.test(value.trim().toUpperCase()) ? undefined : t(error);
+};
@@ -0,0 +1,52 @@
+// Render-count instrumentation, to see how much of a form one keystroke
+// re-renders and to put the figures next to the Vapor form's on the docs
+// site. Off unless the page is opened with `?renders` or setRenderCounting
+// is called; when off, useRenderCount does nothing.
+//
+// To measure: take renderCounts(), type one character, take it again and
+// diffRenderCounts the two. Counts are recorded in an effect, once per
+// committed render, so renders React throws away are not counted. In
+// development StrictMode runs the effects of every newly mounted component a
+// second time, so mounting counts twice there; a keystroke's diff is not
+// affected.
+
+import { useEffect, useRef } from 'react';
+
+let counting =
+  typeof window !== 'undefined' && new URLSearchParams(window.location.search).has('renders');
+const counts = new Map<string, number>();
+
+export const isRenderCounting = () => counting;
+
+export const setRenderCounting = (on: boolean) => {
+  counting = on;
+};
+
+// Counts each committed render of the calling component under `name` and
+// returns how often it has rendered so far, or undefined when counting is
+// off. The returned figure counts calls, which StrictMode doubles in
+// development.
+export const useRenderCount = (name: string): number | undefined => {
+  const renders = useRef(0);
+  renders.current += 1;
+  useEffect(() => {
+    if (counting) counts.set(name, (counts.get(name) ?? 0) + 1);
+  });
+  return counting ? renders.current : undefined;
+};
+
+// Committed renders so far, by component name
+export const renderCounts = (): Record<string, number> => Object.fromEntries(counts);
+
+export const resetRenderCounts = () => counts.clear();
+
+// The components that rendered between two snapshots, and how often
+export const diffRenderCounts = (
+  before: Record<string, number>,
+  after: Record<string, number> = renderCounts(),
+): Record<string, number> =>
+  Object.fromEntries(
+    Object.entries(after)
+      .map(([name, count]): [string, number] => [name, count - (before[name] ?? 0)])
+      .filter(([, count]) => count > 0),
+  );
@@ -0,0 +1,21 @@
+// Entry point for the validation conformance corpus: runs it against the
+// shared modules and the classic form's checkout schema, along with the form
+// store's regression cases, and throws when any case fails so the script
+// exits non-zero. Run it with
+// `npx tsx tsx/runConformance.ts` from the repository root.
+
+import corpus from './validationCorpus.json';
+import { describeFailures, runConformance, type ValidationCorpus } from './validationConformance';
+import { checkoutSchemaErrors } from './checkoutSchema';
+import { runStoreRegressions } from './formStoreRegressions';
+
+// JSON imports are typed case by case, too narrowly to match the corpus types
+const failures = [
+  ...runConformance(corpus as unknown as ValidationCorpus, { schema: checkoutSchemaErrors }),
+  ...runStoreRegressions(),
+];
+
+if (failures.length > 0) {
+  throw new Error(`${failures.length} conformance case(s) failed:\n${describeFailures(failures)}`);
+}
+console.log('Validation conformance corpus and form store regressions: all cases pass');
@@ -0,0 +1,734 @@
+// Headless checkout form state shared by both React variants. The form owns
+// values, touched/dirty flags, errors, formatting, conditional visibility and
+// submission, and hands out field bindings that any presentational component
+// (forminput, FloatingInput, StyledSelect, toggle) can consume.
+//
+// Values may be nested (the classic form) or flat (the modern form). `paths`
+// maps each rule table field name to where its value lives, so formatting,
+// validation and the country-driven fields work the same for both.
+// Conditional fields are declared with `conditions` (checkoutConditions.ts).
+// A field whose value is an array is a list: its items are addressed by
+// index paths such as "account.notes.2" (see useFieldArray.ts).
+//
+// The state lives in an external store (formStore.ts). useCheckoutForm
+// subscribes its host to all of it, so the host re-renders on every change;
+// with useCheckoutFormStore nothing subscribes by default, and each input
+// follows only its own field through useFormField, so a keystroke re-renders
+// just the input it went to.
+
+import { useEffect, useRef, useState, type ChangeEvent, type FormEvent } from 'react';
+import {
+  checkFields,
+  checkLists,
+  checkoutValidations,
+  dependencyValue,
+  messagesOf,
+  type FieldErrors,
+  type FieldValues,
+  type ListValues,
+  type RuleFailure,
+  type ValidationRules,
+} from './checkoutValidation';
+import { formatField, maskField } from './checkoutFormatters';
+import {
+  buildPayload,
+  conditionalRules,
+  isVisible,
+  resetRevealed,
+  revealedKeys,
+  type Conditions,
+} from './checkoutConditions';
+import { reconcileSubdivision } from './subdivisions';
+import { getPath, isWithin, setPath } from './valuePaths';
+import { focusFirstField } from './fieldAria';
+import { getLocale, useLocale } from './i18n';
+import type { MaskPattern } from './inputMask';
+import { createStore, shallowEqual, useStoreSelector, type Listener } from './formStore';
+
+// When a field is first validated, and so when its error can first show:
+// only on submit, each time it loses focus, on every change, or on every
+// change once it has lost focus the first time
+export type ValidationMode = 'onSubmit' | 'onBlur' | 'onChange' | 'onTouched';
+
+// When a field is validated again once it has been submitted
+export type RevalidateMode = 'onSubmit' | 'onBlur' | 'onChange';
+
+export interface FieldValidationModes {
+  mode?: ValidationMode;
+  revalidate?: RevalidateMode;
+}
+
+export interface CheckoutFormOptions<T> {
+  initialValues: T;
+  // Rule table field name -> value path; defaults to the field name itself
+  paths?: Record<string, string>;
+  rules?: ValidationRules;
+  // Errors keyed by value path; defaults to running `rules` with the
+  // conditions applied. List fields are always checked by the form itself.
+  validate?: (values: T, fields: FieldValues) => FieldErrors;
+  // Hidden fields are left out of validation, of `fields` and of the payload
+  conditions?: Conditions<T>;
+  // Defaults to 'onBlur'
+  mode?: ValidationMode;
+  // Defaults to 'onChange'
+  revalidate?: RevalidateMode;
+  // Per-field overrides, keyed by rule table field name or value path
+  fieldModes?: Record<string, FieldValidationModes>;
+}
+
+type InputChange =
+  | string
+  | ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>;
+
+// Binding for text inputs, native selects and value-based selects alike:
+// onChange takes either a change event or the new value. `showError` is set
+// once the field has been validated under its mode, and `error` is its error
+// as of then. `mask` is set for fields typed into a fixed layout, for inputs
+// to use with useMaskedInput. The handlers stay the same from one binding to
+// the next, so an unchanged field's binding compares equal.
+export interface FieldBinding {
+  id: string;
+  name: string;
+  value: string;
+  onChange: (input: InputChange) => void;
+  onBlur: () => void;
+  error?: string;
+  showError: boolean;
+  touched: boolean;
+  dirty: boolean;
+  mask?: MaskPattern;
+}
+
+// Where a field's validation stands: `live` fields show their current error,
+// the others the `error` they had when last validated and the `rule` behind it
+interface ValidationState {
+  live: boolean;
+  error?: string;
+  rule?: string;
+  // Validated by a submit (or a group check), so the revalidate mode applies
+  submitted: boolean;
+}
+
+export interface ToggleBinding {
+  id: string;
+  name: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}
+
+export interface FormState<T> {
+  values: T;
+  touched: Record<string, boolean>;
+  // Fields that have been validated, keyed by value path
+  validated: Record<string, ValidationState>;
+  // Errors the server reported, with the value each was reported for: one
+  // stops showing as soon as its field is edited
+  serverErrors: Record<string, { message: string; value: unknown }>;
+  submitted: boolean;
+  // Submits tried so far, valid or not; kept across resets
+  submitCount: number;
+  isSubmitting: boolean;
+}
+
+// The state with everything derived from it, as selectors see it
+export interface FormView<T> extends FormState<T> {
+  // Flat view by rule table field name, without hidden fields and lists
+  fields: FieldValues;
+  // The visible lists, by rule table field name
+  lists: ListValues;
+  errors: FieldErrors;
+  // The rule behind each error: what failed in the rule table (see
+  // RuleFailure), "schema" for one only the form's `validate` found, or
+  // "server" for one the server reported
+  errorRules: Record<string, string>;
+  dirty: Record<string, boolean>;
+  isDirty: boolean;
+  isVisible: (path: string) => boolean;
+}
+
+// Flat values keyed by rule table field name, as the modern form keeps them
+export const identityPaths: Record<string, string> = Object.fromEntries(
+  Object.keys(checkoutValidations).map((field) => [field, field]),
+);
+
+// The form behind both hooks, or headless without React. Options are read
+// through `getOptions` on every use, so they can change from one render to
+// the next; `requestFocus` moves focus once the next render is on screen.
+export const createCheckoutForm = <T extends object>(
+  initialValues: T,
+  getOptions: () => CheckoutFormOptions<T>,
+  requestFocus: (paths: string[]) => void,
+) => {
+  const store = createStore<FormState<T>>({
+    values: initialValues,
+    touched: {},
+    validated: {},
+    serverErrors: {},
+    submitted: false,
+    submitCount: 0,
+    isSubmitting: false,
+  });
+  let baseline = initialValues;
+  let submitting = false;
+
+  const options = () => {
+    const {
+      paths = identityPaths,
+      rules = checkoutValidations,
+      conditions = {},
+      mode = 'onBlur',
+      revalidate = 'onChange',
+      fieldModes = {},
+      validate,
+    } = getOptions();
+    return { paths, rules, conditions, mode, revalidate, fieldModes, validate };
+  };
+
+  let fieldOfCache: { paths: Record<string, string>; fieldOf: Record<string, string> } | undefined;
+  // Value path -> rule table field name
+  const fieldOf = (path: string): string | undefined => {
+    const { paths } = options();
+    if (fieldOfCache?.paths !== paths) {
+      fieldOfCache = {
+        paths,
+        fieldOf: Object.fromEntries(Object.entries(paths).map(([field, valuePath]) => [valuePath, field])),
+      };
+    }
+    return fieldOfCache.fieldOf[path];
+  };
+
+  const isVisibleIn = (current: T, path: string) => isVisible(options().conditions, current, path);
+
+  const flatten = (current: T): FieldValues => {
+    const flat: FieldValues = {};
+    for (const [field, path] of Object.entries(options().paths)) {
+      const value = getPath(current, path);
+      if (value === undefined || Array.isArray(value) || !isVisibleIn(current, path)) continue;
+      flat[field] = String(value);
+    }
+    return flat;
+  };
+
+  const listsOf = (current: T): ListValues => {
+    const found: ListValues = {};
+    for (const [field, path] of Object.entries(options().paths)) {
+      const value = getPath(current, path);
+      if (Array.isArray(value) && isVisibleIn(current, path)) found[field] = value.map(String);
+    }
+    return found;
+  };
+
+  // Lists compare by their items
+  const isDirtyPath = (current: T, path: string) =>
+    JSON.stringify(getPath(current, path)) !== JSON.stringify(getPath(baseline, path));
+
+  // Everything derived from the values, worked out once per change. Messages
+  // come out in the active locale, so a switch re-validates.
+  let derived:
+    | {
+        values: T;
+        serverErrors: FormState<T>['serverErrors'];
+        baseline: T;
+        locale: string;
+        result: Pick<FormView<T>, 'fields' | 'lists' | 'errors' | 'errorRules' | 'dirty' | 'isDirty'>;
+      }
+    | undefined;
+
+  const derive = ({ values, serverErrors }: FormState<T>) => {
+    const locale = getLocale();
+    if (
+      derived?.values === values &&
+      derived.serverErrors === serverErrors &&
+      derived.baseline === baseline &&
+      derived.locale === locale
+    ) {
+      return derived.result;
+    }
+    const { paths, rules, conditions, validate } = options();
+    const fields = flatten(values);
+    const lists = listsOf(values);
+    const active = conditionalRules(rules, conditions, values, paths);
+    const failed: Record<string, RuleFailure> = Object.fromEntries(
+      Object.entries(checkFields(Object.keys(active), fields, active)).map(([field, failure]) => [
+        paths[field],
+        failure,
+      ]),
+    );
+    // A custom `validate` reports messages only: one the rule table gave too
+    // is its failure, anything else the schema's own
+    const found = Object.entries(validate ? validate(values, fields) : messagesOf(failed)).map(
+      ([path, message]): [string, RuleFailure] => [
+        path,
+        { rule: failed[path]?.message === message ? failed[path].rule : 'schema', message },
+      ],
+    );
+    const fromServer = Object.entries(serverErrors)
+      .filter(([path, { value }]) => getPath(values, path) === value)
+      .map(([path, { message }]): [string, RuleFailure] => [path, { rule: 'server', message }]);
+    // "notes.2" -> "account.notes.2"
+    const fromLists = Object.entries(checkLists(lists, fields, active)).map(
+      ([key, failure]): [string, RuleFailure] => {
+        const [field, ...index] = key.split('.');
+        return [[paths[field], ...index].join('.'), failure];
+      },
+    );
+    const shown = Object.fromEntries(
+      [...fromServer, ...fromLists, ...found].filter(([path]) => isVisibleIn(values, path)),
+    );
+    const errors: FieldErrors = messagesOf(shown);
+    const errorRules = Object.fromEntries(Object.entries(shown).map(([path, { rule }]) => [path, rule]));
+    const dirty = Object.fromEntries(
+      Object.values(paths).map((path) => [path, isDirtyPath(values, path)]),
+    );
+    const result = {
+      fields,
+      lists,
+      errors,
+      errorRules,
+      dirty,
+      isDirty: JSON.stringify(values) !== JSON.stringify(baseline),
+    };
+    derived = { values, serverErrors, baseline, locale, result };
+    return result;
+  };
+
+  let viewCache: { state: FormState<T>; derived: ReturnType<typeof derive>; view: FormView<T> } | undefined;
+  const view = (state: FormState<T> = store.getState()): FormView<T> => {
+    const current = derive(state);
+    if (viewCache?.state !== state || viewCache.derived !== current) {
+      viewCache = {
+        state,
+        derived: current,
+        view: { ...state, ...current, isVisible: (path: string) => isVisibleIn(state.values, path) },
+      };
+    }
+    return viewCache.view;
+  };
+
+  // A list's path with the paths of its items, for every list in `group`
+  const withItems = (group: string[]): string[] =>
+    group.flatMap((path) => {
+      const value = getPath(store.getState().values, path);
+      return Array.isArray(value) ? [path, ...value.map((_, index) => `${path}.${index}`)] : [path];
+    });
+
+  // Formats the new value, applies the reset policy of anything it shows
+  // again, then keeps dependent fields in step: whenever a visible field's
+  // `depends_on` value changes (a country, the card number), postal codes and
+  // phones are reformatted and states reconciled with the new value. A state
+  // is only reconciled when its country was shown before and after: a section
+  // hidden and shown again keeps what its reset policy kept.
+  const applyChange = (previous: T, path: string, raw: unknown): T => {
+    const { paths, rules, conditions } = options();
+    const field = fieldOf(path);
+    const previousFields = flatten(previous);
+    const value =
+      typeof raw === 'string' && field ? formatField(field, raw, previousFields, rules) : raw;
+    let next = resetRevealed(conditions, previous, setPath(previous, path, value), baseline);
+
+    const nextFields = flatten(next);
+    for (const [dependent, rule] of Object.entries(rules)) {
+      const dependentPath = paths[dependent];
+      if (!rule.depends_on || !dependentPath || dependent === field) continue;
+      const previousSource = dependencyValue(rule, previousFields);
+      const nextSource = dependencyValue(rule, nextFields);
+      if (previousSource === nextSource || !isVisibleIn(next, dependentPath)) continue;
+
+      const current = String(getPath(next, dependentPath) ?? '');
+      if (rule.field_type === 'subdivision') {
+        const source = rule.depends_on;
+        if (previousFields[source] === undefined || nextFields[source] === undefined) continue;
+        next = setPath(next, dependentPath, reconcileSubdivision(current, previousSource, nextSource));
+      } else {
+        next = setPath(next, dependentPath, formatField(dependent, current, nextFields, rules));
+      }
+    }
+    return next;
+  };
+
+  const setValue = (path: string, value: unknown) => {
+    // Cleared fields start out untouched and unvalidated again
+    const { values } = store.getState();
+    const revealed = revealedKeys(options().conditions, values, setPath(values, path, value));
+    const keep = ([key]: [string, unknown]) => !revealed.some((hidden) => isWithin(key, hidden));
+    store.setState((previous) => ({
+      ...previous,
+      values: applyChange(previous.values, path, value),
+      ...(revealed.length > 0 && {
+        touched: Object.fromEntries(Object.entries(previous.touched).filter(keep)),
+        validated: Object.fromEntries(Object.entries(previous.validated).filter(keep)),
+      }),
+    }));
+  };
+
+  const setValues = (next: T | ((previous: T) => T)) =>
+    store.setState((previous) => ({
+      ...previous,
+      values: typeof next === 'function' ? (next as (previous: T) => T)(previous.values) : next,
+    }));
+
+  // Items of a list follow the list's modes
+  const modesOf = (path: string): Required<FieldValidationModes> => {
+    const { mode, revalidate, fieldModes } = options();
+    const field = fieldOf(path) ?? fieldOf(path.replace(/\.\d+$/, ''));
+    return { mode, revalidate, ...(field && fieldModes[field]), ...fieldModes[path] };
+  };
+
+  const markValidated = (changes: Record<string, ValidationState>) =>
+    store.setState((previous) => ({ ...previous, validated: { ...previous.validated, ...changes } }));
+
+  // Value paths of the fields whose rule compares them with the field at
+  // `path` (`match` with `target_field`), e.g. the password confirmation
+  const matchedBy = (path: string): string[] => {
+    const { paths, rules } = options();
+    const field = fieldOf(path);
+    if (!field) return [];
+    return Object.entries(rules)
+      .filter(([name, rule]) => rule.match && rule.target_field === field && paths[name])
+      .map(([name]) => paths[name]);
+  };
+
+  // Validation the user triggered on one field by editing it or leaving it.
+  // Fields matched against it that already show their validation are checked
+  // again as if the same had happened to them, so the confirmation reports a
+  // mismatch as soon as either password changes.
+  const validateOn = (path: string, trigger: 'change' | 'blur') => {
+    validateOne(path, trigger);
+    const { validated } = store.getState();
+    matchedBy(path)
+      .filter((matched) => matched in validated)
+      .forEach((matched) => validateOne(matched, trigger));
+  };
+
+  const validateOne = (path: string, trigger: 'change' | 'blur') => {
+    const current = store.getState();
+    const state = current.validated[path];
+    const { errors, errorRules } = derive(current);
+    const modes = modesOf(path);
+    if (state?.submitted) {
+      if (modes.revalidate === 'onBlur' && trigger === 'blur') {
+        markValidated({
+          [path]: { live: false, error: errors[path], rule: errorRules[path], submitted: true },
+        });
+      }
+      return;
+    }
+    if (state?.live) return;
+    if (
+      (trigger === 'change' && modes.mode === 'onChange') ||
+      (trigger === 'blur' && modes.mode === 'onTouched')
+    ) {
+      markValidated({ [path]: { live: true, submitted: false } });
+    } else if (trigger === 'blur' && modes.mode === 'onBlur') {
+      markValidated({
+        [path]: { live: false, error: errors[path], rule: errorRules[path], submitted: false },
+      });
+    }
+  };
+
+  // Validation by a submit, or a check of a group of fields such as a wizard step
+  const validateSubmitted = (group: string[]) => {
+    const { errors, errorRules } = derive(store.getState());
+    markValidated(
+      Object.fromEntries(
+        group.map((path) => [
+          path,
+          {
+            live: modesOf(path).revalidate === 'onChange',
+            error: errors[path],
+            rule: errorRules[path],
+            submitted: true,
+          },
+        ]),
+      ),
+    );
+  };
+
+  const touch = (path: string) => {
+    store.setState((previous) =>
+      previous.touched[path] ? previous : { ...previous, touched: { ...previous.touched, [path]: true } },
+    );
+    validateOn(path, 'blur');
+  };
+
+  const errorFor = (path: string, state: FormState<T> = store.getState()): string | undefined => {
+    const entry = state.validated[path];
+    if (!entry) return undefined;
+    return entry.live ? derive(state).errors[path] : entry.error;
+  };
+
+  // The rule behind the error `errorFor` gives, see FormView['errorRules']
+  const ruleFor = (path: string, state: FormState<T> = store.getState()): string | undefined => {
+    const entry = state.validated[path];
+    if (!entry) return undefined;
+    return entry.live ? derive(state).errorRules[path] : entry.rule;
+  };
+
+  // One set of handlers per path, kept for the life of the form
+  const handlers = new Map<string, Pick<FieldBinding, 'onChange' | 'onBlur'>>();
+  const handlersFor = (path: string) => {
+    let found = handlers.get(path);
+    if (!found) {
+      found = {
+        onChange: (input: InputChange) => {
+          setValue(path, typeof input === 'string' ? input : input.target.value);
+          validateOn(path, 'change');
+        },
+        onBlur: () => touch(path),
+      };
+      handlers.set(path, found);
+    }
+    return found;
+  };
+
+  const field = (path: string, state: FormState<T> = store.getState()): FieldBinding => {
+    const name = fieldOf(path);
+    return {
+      id: path,
+      name: path,
+      value: String(getPath(state.values, path) ?? ''),
+      ...handlersFor(path),
+      error: errorFor(path, state),
+      showError: path in state.validated,
+      touched: Boolean(state.touched[path]),
+      dirty: isDirtyPath(state.values, path),
+      mask: name ? maskField(name, derive(state).fields, options().rules) : undefined,
+    };
+  };
+
+  const toggleHandlers = new Map<string, ToggleBinding['onChange']>();
+  const toggle = (path: string, state: FormState<T> = store.getState()): ToggleBinding => {
+    let onChange = toggleHandlers.get(path);
+    if (!onChange) {
+      onChange = (checked: boolean) => {
+        setValue(path, checked);
+        validateOn(path, 'change');
+      };
+      toggleHandlers.set(path, onChange);
+    }
+    return { id: path, name: path, checked: Boolean(getPath(state.values, path)), onChange };
+  };
+
+  // Moves focus to whichever of the fields comes first on the page
+  const focusFirst = (group: string[]) => requestFocus(group);
+
+  // Shows errors the server reported, keyed by value path, until the fields change
+  const setServerErrors = (reported: FieldErrors) => {
+    const { values } = store.getState();
+    store.setState((previous) => ({
+      ...previous,
+      serverErrors: Object.fromEntries(
+        Object.entries(reported).map(([path, message]) => [
+          path,
+          { message, value: getPath(values, path) },
+        ]),
+      ),
+    }));
+    markValidated(
+      Object.fromEntries(
+        Object.entries(reported).map(([path, message]) => [
+          path,
+          {
+            live: modesOf(path).revalidate === 'onChange',
+            error: message,
+            rule: 'server',
+            submitted: true,
+          },
+        ]),
+      ),
+    );
+    focusFirst(Object.keys(reported));
+  };
+
+  // Reveals and checks a group of fields, e.g. one wizard step
+  const validatePaths = (group: string[]): boolean => {
+    const checked = withItems(group);
+    validateSubmitted(checked);
+    const { errors } = derive(store.getState());
+    const invalid = checked.filter((path) => errors[path]);
+    if (invalid.length > 0) focusFirst(invalid);
+    return invalid.length === 0;
+  };
+
+  // `onValid` gets the payload: the values with hidden fields dropped or
+  // substituted as their conditions say. An invalid submit focuses the first
+  // invalid field.
+  const handleSubmit =
+    (
+      onValid: (payload: T, fields: FieldValues) => void | Promise<void>,
+      onInvalid?: (errors: FieldErrors) => void,
+    ) =>
+    async (e?: FormEvent) => {
+      e?.preventDefault();
+      if (submitting) return;
+      const { errors } = derive(store.getState());
+      store.setState((previous) => ({
+        ...previous,
+        submitted: true,
+        submitCount: previous.submitCount + 1,
+      }));
+      validateSubmitted([
+        ...new Set([...withItems(Object.values(options().paths)), ...Object.keys(errors)]),
+      ]);
+      if (Object.keys(errors).length > 0) {
+        onInvalid?.(errors);
+        focusFirst(Object.keys(errors));
+        return;
+      }
+      submitting = true;
+      store.setState((previous) => ({ ...previous, isSubmitting: true }));
+      const current = store.getState();
+      try {
+        await onValid(buildPayload(current.values, options().conditions), derive(current).fields);
+      } finally {
+        submitting = false;
+        store.setState((previous) => ({ ...previous, isSubmitting: false }));
+      }
+    };
+
+  // Replaces a list's items. `origins` gives each new item's index before
+  // the change (-1 for an added one), so touched and validated state moves
+  // with the items when they are removed or reordered.
+  const setList = (path: string, items: unknown[], origins: number[]) => {
+    const prefix = `${path}.`;
+    const remap = <S>(state: Record<string, S>): Record<string, S> =>
+      Object.fromEntries(
+        Object.entries(state).flatMap(([key, value]) => {
+          if (!key.startsWith(prefix)) return [[key, value]];
+          const [index, ...rest] = key.slice(prefix.length).split('.');
+          const moved = origins.indexOf(Number(index));
+          return moved === -1 ? [] : [[[path, moved, ...rest].join('.'), value]];
+        }),
+      );
+    store.setState((previous) => ({
+      ...previous,
+      touched: remap(previous.touched),
+      validated: remap(previous.validated),
+    }));
+    setValue(path, items);
+  };
+
+  // Back to a clean form; `next` also becomes the new baseline for dirty checks
+  const reset = (next: T = baseline) => {
+    baseline = next;
+    store.setState((previous) => ({
+      ...previous,
+      values: next,
+      touched: {},
+      validated: {},
+      serverErrors: {},
+      submitted: false,
+    }));
+  };
+
+  // Calls `listener` whenever what `select` picks changes, e.g. to start an
+  // async check, without re-rendering anything. Returns the unsubscribe.
+  const watch = <R>(
+    select: (view: FormView<T>) => R,
+    listener: (selected: R) => void,
+    isEqual: (a: R, b: R) => boolean = Object.is,
+  ) => {
+    let previous = select(view());
+    return store.subscribe(() => {
+      const next = select(view());
+      if (isEqual(previous, next)) return;
+      previous = next;
+      listener(next);
+    });
+  };
+
+  return {
+    getState: store.getState,
+    subscribe: (listener: Listener) => store.subscribe(listener),
+    getValues: () => store.getState().values,
+    view,
+    watch,
+    // Value path of a rule table field
+    pathOf: (field: string): string | undefined => options().paths[field],
+    isVisible: (path: string) => isVisibleIn(store.getState().values, path),
+    errorFor,
+    ruleFor,
+    field,
+    toggle,
+    setValue,
+    setList,
+    setValues,
+    setServerErrors,
+    focusFirst,
+    validatePaths,
+    handleSubmit,
+    reset,
+  };
+};
+
+export type CheckoutFormStore<T extends object> = ReturnType<typeof createCheckoutForm<T>>;
+
+// The form without a subscription: the host only re-renders for focus
+// requests and locale switches. Components read what they render with
+// useFormField, useFormToggle and useFormState.
+export const useCheckoutFormStore = <T extends object>(
+  options: CheckoutFormOptions<T>,
+): CheckoutFormStore<T> => {
+  const latest = useRef(options);
+  latest.current = options;
+  // Paths to focus once the next render is on screen, so a field on another
+  // wizard step can be focused after jumping to it
+  const [focusRequest, setFocusRequest] = useState<{ paths: string[] }>();
+  useEffect(() => {
+    if (focusRequest) focusFirstField(focusRequest.paths);
+  }, [focusRequest]);
+  useLocale();
+  const [form] = useState(() =>
+    createCheckoutForm(options.initialValues, () => latest.current, (paths) => setFocusRequest({ paths })),
+  );
+  return form;
+};
+
+// One field's binding; re-renders only when that field changes
+export const useFormField = <T extends object>(form: CheckoutFormStore<T>, path: string): FieldBinding =>
+  useStoreSelector(form, (state) => form.field(path, state), shallowEqual);
+
+export const useFormToggle = <T extends object>(form: CheckoutFormStore<T>, path: string): ToggleBinding =>
+  useStoreSelector(form, (state) => form.toggle(path, state), shallowEqual);
+
+// Whatever `select` picks from the form, e.g. whether a section is visible;
+// re-renders only when that changes
+export const useFormState = <T extends object, R>(
+  form: CheckoutFormStore<T>,
+  select: (view: FormView<T>) => R,
+  isEqual: (a: R, b: R) => boolean = Object.is,
+): R => useStoreSelector(form, (state) => select(form.view(state)), isEqual);
+
+// The form as plain state: the host re-renders on every change and reads
+// values, errors and bindings straight off the result
+export const useCheckoutForm = <T extends object>(options: CheckoutFormOptions<T>) => {
+  const store = useCheckoutFormStore(options);
+  const view = useFormState(store, (current) => current);
+  return {
+    store,
+    values: view.values,
+    fields: view.fields,
+    lists: view.lists,
+    errors: view.errors,
+    touched: view.touched,
+    dirty: view.dirty,
+    isDirty: view.isDirty,
+    submitted: view.submitted,
+    submitCount: view.submitCount,
+    isSubmitting: view.isSubmitting,
+    isVisible: view.isVisible,
+    errorFor: (path: string) => store.errorFor(path, view),
+    field: (path: string) => store.field(path, view),
+    toggle: (path: string) => store.toggle(path, view),
+    setValue: store.setValue,
+    setList: store.setList,
+    setValues: store.setValues,
+    setServerErrors: store.setServerErrors,
+    focusFirst: store.focusFirst,
+    validatePaths: store.validatePaths,
+    handleSubmit: store.handleSubmit,
+    reset: store.reset,
+  };
+};
+
+export type CheckoutForm<T extends object> = ReturnType<typeof useCheckoutForm<T>>;
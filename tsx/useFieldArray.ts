@@ -0,0 +1,113 @@
+// Field arrays: list fields such as the notes (`[]const []const u8` in the
+// Zig struct), edited one item at a time. Items can be added, removed and
+// reordered; each item is an ordinary field of the form at its index path
+// ("account.notes.2"), so it gets its own binding, error and focus. Keys
+// stay with the items as they move, so React keeps each input's state.
+//
+// The hook follows only the number of items and the list's error, so typing
+// into an item re-renders just that item, which reads its own binding with
+// useFormField.
+
+import { useRef, useState } from 'react';
+import { shallowEqual } from './formStore';
+import { useFormState, type CheckoutFormStore, type FieldBinding } from './useCheckoutForm';
+import { getPath } from './valuePaths';
+
+export interface FieldArrayItem {
+  // Stable across reorders, for React's `key`
+  key: number;
+  index: number;
+  // The item's value path, e.g. "account.notes.2"
+  path: string;
+}
+
+export interface FieldArrayOptions {
+  // No more items can be added past this, e.g. the rule's `max_items`
+  maxItems?: number;
+}
+
+// The list as a whole, without its value: an item's text changing leaves it as it is
+export type ListBinding = Omit<FieldBinding, 'value'>;
+
+export const useFieldArray = <T extends object>(
+  form: CheckoutFormStore<T>,
+  path: string,
+  { maxItems }: FieldArrayOptions = {},
+) => {
+  const itemsOf = (current: T) => {
+    const value = getPath(current, path);
+    return Array.isArray(value) ? value.map(String) : [];
+  };
+  // Typing into an item leaves the length as it is, so only that item re-renders
+  const length = useFormState(form, ({ values }) => itemsOf(values).length);
+  const field = useFormState(
+    form,
+    (view): ListBinding => {
+      const { value: _value, ...binding } = form.field(path, view);
+      return binding;
+    },
+    shallowEqual,
+  );
+  // A reorder keeps the length too, so it renders the new order of keys itself
+  const [, setOrder] = useState(0);
+  const keys = useRef<number[]>([]);
+  const nextKey = useRef(0);
+
+  // The list can also change from outside (a reset, a restored draft): the
+  // items are then new, and so are their keys
+  if (keys.current.length !== length) {
+    keys.current = Array.from({ length }, () => nextKey.current++);
+  }
+
+  // `origins` gives each new item's index before the change, -1 for an added one
+  const update = (items: string[], origins: number[]) => {
+    keys.current = origins.map((origin) => (origin === -1 ? nextKey.current++ : keys.current[origin]));
+    form.setList(path, items, origins);
+    setOrder((order) => order + 1);
+  };
+
+  const indexesOf = (values: string[]) => values.map((_, index) => index);
+
+  // Appends an item and focuses it once it is rendered
+  const append = (item = '') => {
+    const values = itemsOf(form.getValues());
+    if (maxItems !== undefined && values.length >= maxItems) return;
+    update([...values, item], [...indexesOf(values), -1]);
+    form.focusFirst([`${path}.${values.length}`]);
+  };
+
+  const remove = (index: number) => {
+    const values = itemsOf(form.getValues());
+    update(
+      values.filter((_, other) => other !== index),
+      indexesOf(values).filter((other) => other !== index),
+    );
+  };
+
+  const move = (from: number, to: number) => {
+    const values = itemsOf(form.getValues());
+    if (to < 0 || to >= values.length || to === from) return;
+    const order = indexesOf(values).filter((other) => other !== from);
+    order.splice(to, 0, from);
+    update(
+      order.map((origin) => values[origin]),
+      order,
+    );
+  };
+
+  const items: FieldArrayItem[] = keys.current.map((key, index) => ({
+    key,
+    index,
+    path: `${path}.${index}`,
+  }));
+
+  return {
+    items,
+    // The list as a whole: its id takes focus for list errors, e.g. on the add button
+    field,
+    canAdd: maxItems === undefined || length < maxItems,
+    append,
+    remove,
+    move,
+  };
+};
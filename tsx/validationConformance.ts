@@ -0,0 +1,223 @@
+// Runs the validation conformance corpus (validationCorpus.json) against the
+// TypeScript implementations: the rule table through validateField and
+// validateForm, luhnCheck, every formatter, the expiry rules and, when given
+// one, a form schema such as the classic form's checkoutFormSchema. The
+// corpus is plain JSON keyed by the Zig field names, with message keys as
+// error codes, so Vaporize can run the same file.
+
+import {
+  checkoutValidations,
+  normalizeFieldName,
+  validateField,
+  validateForm,
+  type FieldErrors,
+  type FieldType,
+  type FieldValues,
+} from './checkoutValidation';
+import { checkoutFormatters } from './checkoutFormatters';
+import { luhnCheck } from './cardBrands';
+import { checkExpiry, type Clock } from './cardExpiry';
+import type { MessageKey } from './checkoutMessages';
+import { catalogs, getLocale, setLocale } from './i18n';
+
+// An error code (message key), or null for valid input
+type Outcome = MessageKey | null;
+
+export interface FieldCase {
+  field: string;
+  value: string;
+  // Other fields the check reads, e.g. the country of a phone number
+  values?: Record<string, string>;
+  error: Outcome;
+  note?: string;
+}
+
+// Every field listed under `errors` must fail with that code; every other
+// field in `values` must pass. Fields left out of `values` are not checked.
+export interface FormCase {
+  name: string;
+  values: Record<string, string>;
+  errors: Record<string, MessageKey>;
+}
+
+export interface LuhnCase {
+  number: string;
+  valid: boolean;
+}
+
+export interface FormatCase {
+  type: FieldType;
+  input: string;
+  // Value of the field the formatter depends on
+  dependency?: string;
+  output: string;
+  note?: string;
+}
+
+export interface ExpiryCase {
+  value: string;
+  error: Outcome;
+  note?: string;
+}
+
+export interface ValidationCorpus {
+  version: number;
+  description?: string;
+  // Date (YYYY-MM-DD) every case is checked on, for the expiry rules
+  now: string;
+  fields: FieldCase[];
+  forms: FormCase[];
+  luhn: LuhnCase[];
+  formats: FormatCase[];
+  expiry: ExpiryCase[];
+}
+
+export interface ConformanceFailure {
+  target: string;
+  // Which case, e.g. `card_number = "4242 4242 4242 4241"`
+  name: string;
+  expected: unknown;
+  actual: unknown;
+}
+
+export interface ConformanceTargets {
+  // Errors by rule table field name for flat values, with `clock` as "now"
+  // for the expiry rules, e.g. the classic form's checkoutFormSchema
+  // (checkoutSchema.ts) behind an adapter
+  schema?: (values: FieldValues, clock: Clock) => FieldErrors;
+}
+
+// Rule table field name for a corpus field name in any naming style
+const ruleNames = new Map(
+  Object.keys(checkoutValidations).map((field) => [normalizeFieldName(field), field]),
+);
+const ruleName = (field: string) => ruleNames.get(normalizeFieldName(field)) ?? field;
+
+const ruleValues = (values: Record<string, string> = {}): FieldValues =>
+  Object.fromEntries(Object.entries(values).map(([field, value]) => [ruleName(field), value]));
+
+// Whether `message` is the English text of `code`, whatever its parameters
+const isMessageFor = (message: string, code: MessageKey): boolean => {
+  const template = catalogs.en[code];
+  const pattern = template
+    .split(/\{\w+\}/)
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.+');
+  return new RegExp(`^${pattern}$`).test(message);
+};
+
+const matches = (message: string | undefined, expected: Outcome): boolean =>
+  expected === null ? message === undefined : message !== undefined && isMessageFor(message, expected);
+
+// The clock for `now`, at local midday so the date is the same in every time zone
+const fixedClock = (now: string): Clock => {
+  const [year, month, day] = now.split('-').map(Number);
+  return () => new Date(year, month - 1, day, 12);
+};
+
+const checkForm = (
+  target: string,
+  { name, values, errors }: FormCase,
+  validate: (values: FieldValues) => FieldErrors,
+): ConformanceFailure[] => {
+  const found = validate(ruleValues(values));
+  return Object.keys(values)
+    .filter((field) => !matches(found[ruleName(field)], errors[field] ?? null))
+    .map((field) => ({
+      target,
+      name: `${name}: ${field}`,
+      expected: errors[field] ?? null,
+      actual: found[ruleName(field)] ?? null,
+    }));
+};
+
+// Messages are matched in English, so the corpus runs in English whatever
+// the active locale; it is restored afterwards
+export const runConformance = (
+  corpus: ValidationCorpus,
+  targets: ConformanceTargets = {},
+): ConformanceFailure[] => {
+  const locale = getLocale();
+  setLocale('en');
+  try {
+    const failures: ConformanceFailure[] = [];
+    // Every date check runs on the corpus date, not today's
+    const clock = fixedClock(corpus.now);
+
+    for (const { field, value, values, error } of corpus.fields) {
+      const actual = validateField(
+        ruleName(field),
+        { ...ruleValues(values), [ruleName(field)]: value },
+        checkoutValidations,
+        clock,
+      );
+      if (!matches(actual, error)) {
+        failures.push({
+          target: 'validateField',
+          name: `${field} = ${JSON.stringify(value)}`,
+          expected: error,
+          actual: actual ?? null,
+        });
+      }
+    }
+
+    for (const form of corpus.forms) {
+      failures.push(
+        ...checkForm('validateForm', form, (values) => validateForm(values, checkoutValidations, clock)),
+      );
+      const { schema } = targets;
+      if (schema) failures.push(...checkForm('schema', form, (values) => schema(values, clock)));
+    }
+
+    for (const { number, valid } of corpus.luhn) {
+      const actual = luhnCheck(number);
+      if (actual !== valid) {
+        failures.push({ target: 'luhnCheck', name: JSON.stringify(number), expected: valid, actual });
+      }
+    }
+
+    for (const { type, input, dependency, output } of corpus.formats) {
+      const formatter = checkoutFormatters[type];
+      const actual = formatter ? formatter(input, dependency) : undefined;
+      if (actual !== output) {
+        failures.push({
+          target: `formatter ${type}`,
+          name: JSON.stringify(input),
+          expected: output,
+          actual: actual ?? null,
+        });
+      }
+    }
+    // Every formatter needs at least one case
+    for (const type of Object.keys(checkoutFormatters)) {
+      if (!corpus.formats.some((format) => format.type === type)) {
+        failures.push({ target: `formatter ${type}`, name: 'coverage', expected: 'a case', actual: null });
+      }
+    }
+
+    for (const { value, error } of corpus.expiry) {
+      const actual = checkExpiry(value, clock);
+      if (!matches(actual, error)) {
+        failures.push({
+          target: 'checkExpiry',
+          name: `${JSON.stringify(value)} on ${corpus.now}`,
+          expected: error,
+          actual: actual ?? null,
+        });
+      }
+    }
+
+    return failures;
+  } finally {
+    setLocale(locale);
+  }
+};
+
+// One line per failure, for a console or CI log
+export const describeFailures = (failures: ConformanceFailure[]): string =>
+  failures
+    .map(
+      ({ target, name, expected, actual }) =>
+        `${target} ${name}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`,
+    )
+    .join('\n');
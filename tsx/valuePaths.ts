@@ -0,0 +1,38 @@
+// Dotted-path access into nested form values, e.g. "payment.cardnumber".
+// Numeric keys index into arrays, e.g. "account.notes.2". Setters are
+// immutable and create missing objects along the way.
+
+export const getPath = (values: unknown, path: string): unknown =>
+  path
+    .split('.')
+    .reduce<unknown>((current, key) => (current as Record<string, unknown> | undefined)?.[key], values);
+
+export const setPath = <T>(values: T, path: string, value: unknown): T => {
+  const [key, ...rest] = path.split('.');
+  if (Array.isArray(values)) {
+    const items = [...values];
+    const index = Number(key);
+    items[index] = rest.length > 0 ? setPath(items[index], rest.join('.'), value) : value;
+    return items as T;
+  }
+  const current = (values ?? {}) as Record<string, unknown>;
+  return {
+    ...current,
+    [key]: rest.length > 0 ? setPath(current[key], rest.join('.'), value) : value,
+  } as T;
+};
+
+export const deletePath = <T>(values: T, path: string): T => {
+  const [key, ...rest] = path.split('.');
+  const current = (values ?? {}) as Record<string, unknown>;
+  if (!(key in current)) return values;
+  if (rest.length === 0) {
+    const { [key]: _removed, ...others } = current;
+    return others as T;
+  }
+  return { ...current, [key]: deletePath(current[key], rest.join('.')) } as T;
+};
+
+// True when `path` is `key` itself or lies inside it
+export const isWithin = (path: string, key: string): boolean =>
+  path === key || path.startsWith(`${key}.`);
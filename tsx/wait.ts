@@ -0,0 +1,21 @@
+// A delay that can be cancelled, for retry backoff and simulated latency.
+
+// Resolves after `ms`, or rejects like fetch does when `signal` aborts, at
+// once if it already has. The abort listener goes once the wait is over, so a
+// long-lived signal does not collect one per wait.
+export const wait = (ms: number, signal?: AbortSignal | null): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
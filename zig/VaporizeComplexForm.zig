@@ -31,7 +31,14 @@ const CheckoutForm = struct {
         method: []const u8 = "",
         expiry: []const u8 = "",
         cvv: []const u8 = "",
-        billing_address: []const u8 = "",
+        // Leaf names stay unique so __validations can key on them
+        billing: struct {
+            billing_address: []const u8 = "",
+            billing_country: []const u8 = "",
+            billing_state: []const u8 = "",
+            billing_city: []const u8 = "",
+            billing_postal_code: []const u8 = "",
+        } = .{},
         card_number: []const u8 = "",
     } = .{},
 
@@ -55,13 +62,20 @@ const CheckoutForm = struct {
         .password = Validation{ .field_type = .password },
         .confirm_password = Validation{ .field_type = .password, .target_field = "password", .match = true },
         .phone = Validation{ .field_type = .telephone, .depends_on = "country" },
+        .method = Validation{ .field_type = .string, .required = true, .err = "Payment method is required" },
         .card_number = Validation{ .field_type = .credit_card },
         .expiry = Validation{ .field_type = .expiry, .placeholder = "MM/YY" },
-        .cvv = Validation{ .field_type = .cvv, .placeholder = "123", .err = "CVV is required" },
+        .cvv = Validation{ .field_type = .cvv, .placeholder = "123", .depends_on = "card_number" },
+        .billing_address = Validation{ .field_type = .string, .required = true },
+        .billing_country = Validation{ .field_type = .string, .required = true },
+        .billing_city = Validation{ .field_type = .string, .required = true },
+        .billing_state = Validation{ .field_type = .string, .required = true, .depends_on = "billing_country" },
+        .billing_postal_code = Validation{ .field_type = .string, .required = true, .depends_on = "billing_country" },
         .address = Validation{ .field_type = .string, .required = true },
+        .country = Validation{ .field_type = .string, .required = true },
         .city = Validation{ .field_type = .string, .required = true },
-        .state = Validation{ .field_type = .string, .required = true },
-        .postal_code = Validation{ .field_type = .string, .required = true },
+        .state = Validation{ .field_type = .string, .required = true, .depends_on = "country" },
+        .postal_code = Validation{ .field_type = .string, .required = true, .depends_on = "country" },
         .notes = Validation{ .field_type = .string, .required = true, .err = "Notes are required" },
     };
 